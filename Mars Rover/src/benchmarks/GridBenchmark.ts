@@ -0,0 +1,58 @@
+import { Grid } from '../grid/Grid';
+import { GridComponent } from '../grid/GridComponent';
+import { Obstacle } from '../grid/Obstacle';
+
+const WIDTH = 10000;
+const HEIGHT = 10000;
+const OBSTACLES = 200000;
+const LINEAR_LOOKUPS = 1000;
+const INDEXED_LOOKUPS = 1000000;
+
+// Reproduces the previous list-backed lookup so both strategies see the same map.
+class LinearGrid {
+  private components: GridComponent[] = [];
+
+  add(component: GridComponent) {
+    this.components.push(component);
+  }
+
+  isBlocked(x: number, y: number): boolean {
+    return this.components.some((c) => c.isObstacle() && c.x === x && c.y === y);
+  }
+}
+
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function measure(label: string, lookups: number, isBlocked: (x: number, y: number) => boolean): number {
+  const next = random(42);
+  let hits = 0;
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < lookups; i++) {
+    if (isBlocked(Math.floor(next() * WIDTH), Math.floor(next() * HEIGHT))) {
+      hits++;
+    }
+  }
+  const perLookup = Number(process.hrtime.bigint() - start) / lookups;
+  console.log(`${label.padEnd(8)} ${lookups} lookups, ${hits} hits, ${perLookup.toFixed(1)} ns/lookup`);
+  return perLookup;
+}
+
+const grid = new Grid(WIDTH, HEIGHT);
+const linear = new LinearGrid();
+const next = random(7);
+for (let i = 0; i < OBSTACLES; i++) {
+  const obstacle = new Obstacle(Math.floor(next() * WIDTH), Math.floor(next() * HEIGHT));
+  grid.add(obstacle);
+  linear.add(obstacle);
+}
+
+console.log(`Grid ${WIDTH}x${HEIGHT} with ${OBSTACLES} obstacles`);
+const linearCost = measure('linear', LINEAR_LOOKUPS, (x, y) => linear.isBlocked(x, y));
+const indexedCost = measure('indexed', INDEXED_LOOKUPS, (x, y) => grid.isBlocked(x, y));
+console.log(`Speedup: ${(linearCost / indexedCost).toFixed(0)}x`);
@@ -0,0 +1,7 @@
+import { RoverCommand } from './RoverCommand';
+
+export class CollectCommand extends RoverCommand {
+  protected perform(): void {
+    this.rover.collect();
+  }
+}
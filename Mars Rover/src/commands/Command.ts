@@ -1,3 +1,22 @@
 export interface Command {
   execute(): void;
+  undo(): void;
+  // Runs the command one primitive maneuver at a time: it pauses before every maneuver, so a
+  // simulation can give each maneuver its own tick. Commands without it are a single maneuver.
+  run?(): Generator<void, void, void>;
+}
+
+export function* runStepwise(command: Command): Generator<void, void, void> {
+  if (command.run) {
+    yield* command.run();
+  } else {
+    yield;
+    command.execute();
+  }
+}
+
+export function* runAll(commands: Command[]): Generator<void, void, void> {
+  for (const command of commands) {
+    yield* runStepwise(command);
+  }
 }
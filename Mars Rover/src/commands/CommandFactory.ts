@@ -0,0 +1,18 @@
+import { Command } from './Command';
+import { MoveCommand } from './MoveCommand';
+import { TurnLeftCommand } from './TurnLeftCommand';
+import { TurnRightCommand } from './TurnRightCommand';
+import { CollectCommand } from './CollectCommand';
+import { Rover } from '../rover/Rover';
+
+const factories: Record<string, (rover: Rover) => Command> = {
+  'M': (rover) => new MoveCommand(rover),
+  'L': (rover) => new TurnLeftCommand(rover),
+  'R': (rover) => new TurnRightCommand(rover),
+  'C': (rover) => new CollectCommand(rover)
+};
+
+export function createCommand(token: string, rover: Rover): Command | undefined {
+  const factory = factories[token];
+  return factory ? factory(rover) : undefined;
+}
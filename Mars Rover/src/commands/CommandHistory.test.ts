@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { BlockAndAbortPolicy } from '../grid/BoundaryPolicy';
+import { Rover } from '../rover/Rover';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+import { CommandHistory } from './CommandHistory';
+import { MoveCommand } from './MoveCommand';
+import { TurnLeftCommand } from './TurnLeftCommand';
+import { TurnRightCommand } from './TurnRightCommand';
+import { UndoCommand, RedoCommand } from './HistoryCommand';
+
+const setup = (grid = new Grid(5, 5)) => {
+  const rover = new Rover(0, 0, CARDINAL_DIRECTIONS[0]!, grid);
+  grid.add(rover);
+  return { rover, history: new CommandHistory() };
+};
+
+test('undoes and redoes commands in order', () => {
+  const { rover, history } = setup();
+  history.execute(new MoveCommand(rover));
+  history.execute(new TurnRightCommand(rover));
+  history.execute(new MoveCommand(rover));
+  assert.equal(rover.report(), 'Rover is at (1, 1) facing E');
+
+  assert.equal(history.undo(), true);
+  assert.equal(history.undo(), true);
+  assert.equal(rover.report(), 'Rover is at (0, 1) facing N');
+  assert.equal(history.redo(), true);
+  assert.equal(rover.report(), 'Rover is at (0, 1) facing E');
+  assert.deepEqual([history.canUndo(), history.canRedo()], [true, true]);
+});
+
+test('reports when there is nothing to undo or redo', () => {
+  const { history } = setup();
+  assert.equal(history.undo(), false);
+  assert.equal(history.redo(), false);
+});
+
+test('a new command clears what could be redone', () => {
+  const { rover, history } = setup();
+  history.execute(new MoveCommand(rover));
+  history.undo();
+  history.execute(new TurnLeftCommand(rover));
+  assert.equal(history.canRedo(), false);
+  assert.equal(rover.report(), 'Rover is at (0, 0) facing W');
+});
+
+test('undo and redo commands can themselves be undone', () => {
+  const { rover, history } = setup();
+  history.execute(new MoveCommand(rover));
+  const undo = new UndoCommand(history);
+  undo.execute();
+  assert.equal(undo.succeeded(), true);
+  assert.equal(rover.report(), 'Rover is at (0, 0) facing N');
+  undo.undo();
+  assert.equal(rover.report(), 'Rover is at (0, 1) facing N');
+
+  const redo = new RedoCommand(history);
+  redo.execute();
+  assert.equal(redo.succeeded(), false);
+});
+
+test('a command that fails is rolled back and not recorded', () => {
+  const { rover, history } = setup(new Grid(5, 5, new BlockAndAbortPolicy()));
+  history.execute(new TurnLeftCommand(rover));
+  assert.throws(() => history.execute(new MoveCommand(rover)), /aborted/i);
+  assert.equal(rover.report(), 'Rover is at (0, 0) facing W');
+  history.undo();
+  assert.equal(rover.report(), 'Rover is at (0, 0) facing N');
+  assert.equal(history.canUndo(), false);
+});
@@ -0,0 +1,47 @@
+import { Command, runStepwise } from './Command';
+
+export class CommandHistory {
+  private done: Command[] = [];
+  private undone: Command[] = [];
+
+  execute(command: Command): void {
+    command.execute();
+    this.done.push(command);
+    this.undone = [];
+  }
+
+  // Runs a command one maneuver per step, as Command.run does, and records it once it has finished.
+  *run(command: Command): Generator<void, void, void> {
+    yield* runStepwise(command);
+    this.done.push(command);
+    this.undone = [];
+  }
+
+  undo(): boolean {
+    const command = this.done.pop();
+    if (!command) {
+      return false;
+    }
+    command.undo();
+    this.undone.push(command);
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.undone.pop();
+    if (!command) {
+      return false;
+    }
+    command.execute();
+    this.done.push(command);
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+}
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+
+const explore = (source: string) => new MissionRunner().run(new MissionParser().parse(source))[0]!.exploration!;
+
+const WALLED = ['GRID 6 5', ...[0, 1, 2, 3, 4].map(y => `OBSTACLE 2 ${y}`)].join('\n');
+
+test('visits every reachable cell', () => {
+  for (const strategy of ['FRONTIER', 'BOUSTROPHEDON']) {
+    const report = explore(`GRID 5 4\nOBSTACLE 2 2\nROVER a 0 0 N EXPLORE ${strategy}`);
+    assert.equal(report.coverage, 100);
+    assert.equal(report.visited, 19);
+    assert.deepEqual(report.unvisited, []);
+    assert.deepEqual(report.unreachable, []);
+  }
+});
+
+test('reports cells behind a wall as unreachable rather than unvisited', () => {
+  const report = explore(`${WALLED}\nROVER a 0 0 N EXPLORE`);
+  assert.equal(report.visited, 10);
+  assert.equal(report.coverable, 25);
+  assert.deepEqual(report.unvisited, []);
+  assert.equal(report.unreachable.length, 15);
+  assert.ok(report.unreachable.every(([x]) => x > 2));
+});
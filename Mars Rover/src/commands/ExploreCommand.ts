@@ -0,0 +1,85 @@
+import { RoverCommand } from './RoverCommand';
+import { GotoCommand } from './GotoCommand';
+import { Rover } from '../rover/Rover';
+import { UnreachableTargetError } from '../navigation/UnreachableTargetError';
+import { CoverageReport, CoverageStrategy, cellKey, floodCells } from '../navigation/CoverageStrategy';
+
+export class ExploreCommand extends RoverCommand {
+  private result: CoverageReport | null = null;
+
+  constructor(rover: Rover, private readonly strategy: CoverageStrategy) {
+    super(rover);
+  }
+
+  report(): CoverageReport | null {
+    return this.result;
+  }
+
+  protected *stages(): Generator<void, void, void> {
+    const start = this.rover.trail().length - 1;
+    const done = new Set<string>();
+    let seen = start;
+    const targets = this.strategy.targets(this.rover, done);
+    for (let next = targets.next(); !next.done; next = targets.next()) {
+      const target = next.value;
+      try {
+        yield* new GotoCommand(this.rover, ...target).run();
+      } catch (error) {
+        if (!(error instanceof UnreachableTargetError)) {
+          throw error;
+        }
+      }
+      // Give up on a target that turned out to be unreachable instead of retrying it forever.
+      done.add(cellKey(...target));
+      const trail = this.rover.trail();
+      trail.slice(seen).forEach(([x, y]) => done.add(cellKey(x, y)));
+      seen = trail.length;
+    }
+
+    const trail = this.rover.trail().slice(start);
+    this.result = this.summarize(new Set(trail.map(([x, y]) => cellKey(x, y))), trail.length - 1);
+    this.rover.completeExploration(this.result);
+  }
+
+  // Cells the rover was never near enough to visit are told apart from cells it could not have
+  // reached at all, judged on the real map rather than on what the rover believes.
+  private summarize(visited: Set<string>, pathLength: number): CoverageReport {
+    const { grid } = this.rover;
+    const coverable = (x: number, y: number): boolean => {
+      const occupied = grid.componentsAt(x, y).some(c => c !== this.rover && c.isObstacle());
+      const terrain = grid.terrainAt(x, y);
+      return !occupied && (!terrain || terrain.isPassable(this.rover.capabilities));
+    };
+    const reachable = new Set([...floodCells(this.rover, coverable)].map(cell => cellKey(...cell)));
+
+    let total = 0;
+    let covered = 0;
+    const unvisited: [number, number][] = [];
+    const unreachable: [number, number][] = [];
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        if (!coverable(x, y)) {
+          continue;
+        }
+        total++;
+        const key = cellKey(x, y);
+        if (visited.has(key)) {
+          covered++;
+        } else if (reachable.has(key)) {
+          unvisited.push([x, y]);
+        } else {
+          unreachable.push([x, y]);
+        }
+      }
+    }
+    return {
+      strategy: this.strategy.name(),
+      visited: covered,
+      coverable: total,
+      coverage: total === 0 ? 100 : Math.round((covered / total) * 1000) / 10,
+      pathLength,
+      unvisited,
+      unreachable
+    };
+  }
+}
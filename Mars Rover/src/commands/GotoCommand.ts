@@ -0,0 +1,48 @@
+import { Command, runStepwise } from './Command';
+import { RoverCommand } from './RoverCommand';
+import { createCommand } from './CommandFactory';
+import { Rover } from '../rover/Rover';
+import { PathPlanner } from '../navigation/PathPlanner';
+import { UnreachableTargetError } from '../navigation/UnreachableTargetError';
+
+export class GotoCommand extends RoverCommand {
+  private expanded: Command[] = [];
+
+  constructor(rover: Rover, private readonly targetX: number, private readonly targetY: number) {
+    super(rover);
+  }
+
+  steps(): Command[] {
+    return [...this.expanded];
+  }
+
+  protected *stages(): Generator<void, void, void> {
+    const planner = new PathPlanner(
+      this.rover.grid,
+      undefined,
+      (x, y) => this.rover.canEnter(x, y),
+      (fromX, fromY, x, y) => this.rover.canClimb(fromX, fromY, x, y)
+    );
+    const belief = this.rover.belief;
+    this.expanded = [];
+    let route = planner.route(this.rover.snapshot(), this.targetX, this.targetY);
+    let revision = belief?.revision;
+    let detours = 0;
+    while (route.length > 0) {
+      const step = route.shift()!;
+      const command = createCommand(step.maneuver, this.rover)!;
+      yield* runStepwise(command);
+      this.expanded.push(command);
+      // Replan whenever the rover discovers something its current route did not account for, or
+      // ends up somewhere the route did not expect.
+      const strayed = this.rover.x !== step.x || this.rover.y !== step.y || this.rover.direction.name() !== step.heading;
+      if ((belief && belief.revision !== revision) || strayed) {
+        if (strayed && ++detours > this.rover.grid.width * this.rover.grid.height) {
+          throw new UnreachableTargetError(this.targetX, this.targetY, 'the rover keeps being pushed off its route');
+        }
+        revision = belief?.revision;
+        route = planner.route(this.rover.snapshot(), this.targetX, this.targetY);
+      }
+    }
+  }
+}
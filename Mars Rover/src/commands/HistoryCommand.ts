@@ -0,0 +1,39 @@
+import { Command } from './Command';
+import { CommandHistory } from './CommandHistory';
+
+export abstract class HistoryCommand implements Command {
+  protected applied = false;
+
+  constructor(protected history: CommandHistory) {}
+
+  succeeded(): boolean {
+    return this.applied;
+  }
+
+  abstract execute(): void;
+  abstract undo(): void;
+}
+
+export class UndoCommand extends HistoryCommand {
+  execute(): void {
+    this.applied = this.history.undo();
+  }
+
+  undo(): void {
+    if (this.applied) {
+      this.history.redo();
+    }
+  }
+}
+
+export class RedoCommand extends HistoryCommand {
+  execute(): void {
+    this.applied = this.history.redo();
+  }
+
+  undo(): void {
+    if (this.applied) {
+      this.history.undo();
+    }
+  }
+}
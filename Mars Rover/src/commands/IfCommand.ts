@@ -0,0 +1,19 @@
+import { Command, runAll } from './Command';
+import { RoverCommand } from './RoverCommand';
+import { Rover } from '../rover/Rover';
+import { Condition, evaluate } from '../rover/Sensor';
+
+export class IfCommand extends RoverCommand {
+  constructor(
+    rover: Rover,
+    private readonly condition: Condition,
+    private readonly thenBranch: Command[],
+    private readonly elseBranch: Command[]
+  ) {
+    super(rover);
+  }
+
+  protected *stages(): Generator<void, void, void> {
+    yield* runAll(evaluate(this.rover, this.condition) ? this.thenBranch : this.elseBranch);
+  }
+}
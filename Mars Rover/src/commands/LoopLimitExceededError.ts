@@ -0,0 +1,8 @@
+import { SequenceAbortedError } from './SequenceAbortedError';
+
+export class LoopLimitExceededError extends SequenceAbortedError {
+  constructor(public readonly limit: number) {
+    super(`WHILE loop exceeded ${limit} iterations and was rolled back`);
+    this.name = 'LoopLimitExceededError';
+  }
+}
@@ -1,9 +1,7 @@
-import { Command } from './Command';
-import { Rover } from '../rover/Rover';
+import { RoverCommand } from './RoverCommand';
 
-export class MoveCommand implements Command {
-  constructor(private rover: Rover) {}
-  execute(): void {
+export class MoveCommand extends RoverCommand {
+  protected perform(): void {
     this.rover.moveForward();
   }
 }
@@ -0,0 +1,50 @@
+import { Command } from './Command';
+import { Rover, RoverState } from '../rover/Rover';
+
+export abstract class RoverCommand implements Command {
+  private previous: RoverState | null = null;
+
+  constructor(protected rover: Rover) {}
+
+  // Run all at once, a command that fails leaves the rover as it found it.
+  execute(): void {
+    const previous = this.rover.snapshot();
+    try {
+      const run = this.run();
+      while (!run.next().done) {
+        // Outside a simulation every maneuver runs straight away.
+      }
+    } catch (error) {
+      this.rover.restore(previous);
+      throw error;
+    }
+  }
+
+  // Run a maneuver at a time, a failure only rolls back the maneuver that failed: the ones before it
+  // took ticks of their own, and other rovers may have moved into the cells they left.
+  *run(): Generator<void, void, void> {
+    const previous = this.rover.snapshot();
+    yield* this.stages();
+    this.previous = previous;
+  }
+
+  undo(): void {
+    if (this.previous) {
+      this.rover.restore(this.previous);
+    }
+  }
+
+  // A primitive command is one maneuver; compound commands override this and pause before each of theirs.
+  protected *stages(): Generator<void, void, void> {
+    yield;
+    const before = this.rover.snapshot();
+    try {
+      this.perform();
+    } catch (error) {
+      this.rover.restore(before);
+      throw error;
+    }
+  }
+
+  protected perform(): void {}
+}
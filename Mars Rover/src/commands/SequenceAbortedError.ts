@@ -0,0 +1 @@
+export abstract class SequenceAbortedError extends Error {}
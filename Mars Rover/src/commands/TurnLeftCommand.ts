@@ -1,9 +1,7 @@
-import { Command } from './Command';
-import { Rover } from '../rover/Rover';
+import { RoverCommand } from './RoverCommand';
 
-export class TurnLeftCommand implements Command {
-  constructor(private rover: Rover) {}
-  execute(): void {
+export class TurnLeftCommand extends RoverCommand {
+  protected perform(): void {
     this.rover.turnLeft();
   }
 }
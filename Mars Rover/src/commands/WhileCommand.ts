@@ -0,0 +1,25 @@
+import { Command, runAll } from './Command';
+import { RoverCommand } from './RoverCommand';
+import { LoopLimitExceededError } from './LoopLimitExceededError';
+import { Rover } from '../rover/Rover';
+import { Condition, evaluate } from '../rover/Sensor';
+
+export class WhileCommand extends RoverCommand {
+  constructor(
+    rover: Rover,
+    private readonly condition: Condition,
+    private readonly body: Command[],
+    private readonly maxIterations: number = 10000
+  ) {
+    super(rover);
+  }
+
+  protected *stages(): Generator<void, void, void> {
+    for (let iteration = 0; evaluate(this.rover, this.condition); iteration++) {
+      if (iteration >= this.maxIterations) {
+        throw new LoopLimitExceededError(this.maxIterations);
+      }
+      yield* runAll(this.body);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { CommLink } from './CommLink';
+
+const prepare = (source: string) => new MissionRunner().prepare(new MissionParser().parse(source));
+const statuses = (link: CommLink) => link.uplinks().map(packet => packet.status);
+
+test('an uplink is scheduled until it is sent, then in flight until it arrives', () => {
+  const simulation = prepare('GRID 5 5\nLINK 2\nROVER a 0 0 N M\nUPLINK 3 a M');
+  const link = simulation.link!;
+  assert.deepEqual(statuses(link), ['in-flight', 'scheduled']);
+  assert.deepEqual(link.stats('a'), { sent: 1, delivered: 0, lost: 0, telemetry: 0 });
+
+  simulation.step();
+  simulation.step();
+  assert.deepEqual(statuses(link), ['delivered', 'scheduled']);
+  simulation.step();
+  assert.deepEqual(statuses(link), ['delivered', 'in-flight']);
+  simulation.run();
+  assert.deepEqual(statuses(link), ['delivered', 'delivered']);
+  assert.deepEqual([simulation.fleet.rover('a').x, simulation.fleet.rover('a').y], [0, 2]);
+});
+
+test('the continue fallback waits for an uplink to be sent before repeating the last plan', () => {
+  const simulation = prepare('GRID 5 5\nLINK 1 fallback=continue\nROVER a 2 2 N R\nUPLINK 6 a M');
+  const headings: string[] = [];
+  simulation.clock.subscribe(() => headings.push(simulation.fleet.rover('a').direction.name()));
+  simulation.run();
+  assert.deepEqual(headings.slice(0, 6), ['N', 'E', 'E', 'E', 'E', 'E']);
+  assert.equal(simulation.fleet.rover('a').direction.name(), 'S');
+});
+
+test('an uplink after an abort replaces the aborted plan', () => {
+  const simulation = prepare('GRID 5 5\nBOUNDARY abort\nLINK 1\nROVER a 0 3 N MMRRR\nUPLINK 4 a L');
+  simulation.run();
+  assert.deepEqual(statuses(simulation.link!), ['delivered', 'delivered']);
+  assert.equal(simulation.fleet.rover('a').report(), 'Rover is at (0, 4) facing W');
+  assert.equal(simulation.fleet.abortOf('a'), undefined);
+});
+
+test('losses follow the seed', () => {
+  const lost = (seed: number) => {
+    const uplinks = Array.from({ length: 20 }, (_, tick) => `UPLINK ${tick} a L`).join('\n');
+    const simulation = prepare(`GRID 5 5\nLINK 1 loss=0.5 seed=${seed}\nROVER a 0 0 N\n${uplinks}`);
+    simulation.run();
+    return statuses(simulation.link!);
+  };
+  assert.deepEqual(lost(3), lost(3));
+  assert.ok(lost(3).includes('lost') && lost(3).includes('delivered'));
+});
+
+test('rejects invalid link settings', () => {
+  const simulation = prepare('GRID 5 5\nROVER a 0 0 N');
+  const link = (delay: number, loss: number, seed: number) => new CommLink(simulation, { delay, loss, seed, fallback: 'hold' });
+  assert.throws(() => link(1.5, 0, 1), /Light-time delay/);
+  assert.throws(() => link(1, 1, 1), /Packet loss/);
+  assert.throws(() => link(1, 0, NaN), /Link seed must be a whole number/);
+});
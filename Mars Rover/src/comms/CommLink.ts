@@ -0,0 +1,202 @@
+import { Simulation } from '../simulation/Simulation';
+import { RoverEvent } from '../rover/RoverEvents';
+import { CommandParser } from '../language/CommandParser';
+import { SeededRandom } from '../util/SeededRandom';
+
+export type FallbackBehaviour = 'hold' | 'continue';
+
+export const FALLBACK_BEHAVIOURS: readonly FallbackBehaviour[] = ['hold', 'continue'];
+
+export interface LinkOptions {
+  delay: number;
+  loss: number;
+  seed: number;
+  fallback: FallbackBehaviour;
+}
+
+export type PacketStatus = 'scheduled' | 'in-flight' | 'delivered' | 'lost';
+
+export interface UplinkPacket {
+  id: number;
+  rover: string;
+  sequence: string;
+  sentAt: number;
+  arrivesAt: number;
+  status: PacketStatus;
+}
+
+export interface Telemetry {
+  rover: string;
+  sentAt: number;
+  arrivesAt: number;
+  event: RoverEvent;
+}
+
+export interface LinkStats {
+  sent: number;
+  delivered: number;
+  lost: number;
+  telemetry: number;
+}
+
+export interface LinkState extends LinkOptions {
+  random: number;
+  packets: (UplinkPacket & { dropped: boolean })[];
+  downlink: (Telemetry & { dropped: boolean })[];
+  received: Record<string, number>;
+  plans: Record<string, string>;
+}
+
+export type TelemetryListener = (telemetry: Telemetry) => void;
+
+// Earth–Mars radio link on the simulation clock. Command batches reach their rover `delay` ticks after
+// they are sent, and rover events reach Earth `delay` ticks after they happen; either may be lost.
+// A batch sent for a later tick is only scheduled until then. A rover that runs out of commands while
+// a batch is on its way either holds or repeats its last plan.
+export class CommLink {
+  readonly delay: number;
+  readonly loss: number;
+  readonly seed: number;
+  readonly fallback: FallbackBehaviour;
+  private readonly random: SeededRandom;
+  private packets: (UplinkPacket & { dropped: boolean })[] = [];
+  private downlink: (Telemetry & { dropped: boolean })[] = [];
+  private received = new Map<string, number>();
+  private plans = new Map<string, string>();
+  private listeners: TelemetryListener[] = [];
+  private tracked = new Set<string>();
+
+  constructor(private readonly simulation: Simulation, options: LinkOptions | LinkState) {
+    if (!Number.isInteger(options.delay) || options.delay < 0) {
+      throw new RangeError(`Light-time delay must be a whole number of ticks, got ${options.delay}`);
+    }
+    if (!Number.isSafeInteger(options.seed)) {
+      throw new RangeError(`Link seed must be a whole number, got ${options.seed}`);
+    }
+    if (!(options.loss >= 0 && options.loss < 1)) {
+      throw new RangeError(`Packet loss must be at least 0 and below 1, got ${options.loss}`);
+    }
+    ({ delay: this.delay, loss: this.loss, seed: this.seed, fallback: this.fallback } = options);
+    this.random = new SeededRandom(options.seed, 'random' in options ? options.random : options.seed);
+    if ('packets' in options) {
+      this.packets = options.packets.map(packet => ({ ...packet }));
+      this.downlink = options.downlink.map(frame => ({ ...frame }));
+      this.received = new Map(Object.entries(options.received));
+      this.plans = new Map(Object.entries(options.plans));
+    }
+    simulation.fleet.names().forEach(name => this.track(name));
+    simulation.clock.subscribe(tick => this.deliver(tick));
+  }
+
+  // Starts downlinking a rover's events; rovers deployed after the link was set up need this.
+  track(name: string): void {
+    if (this.tracked.has(name)) {
+      return;
+    }
+    this.tracked.add(name);
+    this.simulation.fleet.rover(name).subscribe(event => {
+      const sentAt = this.simulation.clock.tick;
+      this.downlink.push({ rover: name, sentAt, arrivesAt: sentAt + this.delay, event, dropped: this.drops() });
+    });
+  }
+
+  subscribe(listener: TelemetryListener): void {
+    if (!this.listeners.includes(listener)) {
+      this.listeners.push(listener);
+    }
+  }
+
+  unsubscribe(listener: TelemetryListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  // Queues a batch for a rover. It is syntax-checked now, as mission control would before transmitting.
+  send(rover: string, sequence: string, at: number = this.simulation.clock.tick): UplinkPacket {
+    this.simulation.fleet.rover(rover);
+    new CommandParser({ allowHistory: false }).parse(sequence);
+    const packet = {
+      id: this.packets.length + 1,
+      rover,
+      sequence,
+      sentAt: at,
+      arrivesAt: at + this.delay,
+      status: (at > this.simulation.clock.tick ? 'scheduled' : 'in-flight') as PacketStatus,
+      dropped: this.drops()
+    };
+    this.packets.push(packet);
+    if (packet.arrivesAt <= this.simulation.clock.tick) {
+      this.deliver(this.simulation.clock.tick);
+    }
+    return this.describe(packet);
+  }
+
+  uplinks(rover?: string): UplinkPacket[] {
+    return this.packets.filter(packet => rover === undefined || packet.rover === rover).map(packet => this.describe(packet));
+  }
+
+  isBusy(): boolean {
+    return this.packets.some(packet => packet.status === 'scheduled' || packet.status === 'in-flight') || this.downlink.length > 0;
+  }
+
+  stats(rover: string): LinkStats {
+    const packets = this.packets.filter(packet => packet.rover === rover && packet.status !== 'scheduled');
+    return {
+      sent: packets.length,
+      delivered: packets.filter(packet => packet.status === 'delivered').length,
+      lost: packets.filter(packet => packet.status === 'lost').length,
+      telemetry: this.received.get(rover) ?? 0
+    };
+  }
+
+  save(): LinkState {
+    return {
+      delay: this.delay,
+      loss: this.loss,
+      seed: this.seed,
+      fallback: this.fallback,
+      random: this.random.state,
+      packets: this.packets.map(packet => ({ ...packet })),
+      downlink: this.downlink.map(frame => ({ ...frame })),
+      received: Object.fromEntries(this.received),
+      plans: Object.fromEntries(this.plans)
+    };
+  }
+
+  private deliver(tick: number): void {
+    this.packets.filter(packet => packet.status === 'scheduled' && packet.sentAt <= tick).forEach(packet => {
+      packet.status = 'in-flight';
+    });
+    this.packets.filter(packet => packet.status === 'in-flight' && packet.arrivesAt <= tick).forEach(packet => {
+      packet.status = packet.dropped ? 'lost' : 'delivered';
+      if (!packet.dropped) {
+        this.plans.set(packet.rover, packet.sequence);
+        this.simulation.submit(packet.rover, packet.sequence);
+      }
+    });
+    // A rover whose plan was aborted waits for Earth rather than retrying the plan that failed.
+    if (this.fallback === 'continue') {
+      this.plans.forEach((plan, rover) => {
+        const waiting = this.packets.some(packet => packet.rover === rover && packet.status === 'in-flight');
+        if (waiting && this.simulation.isIdle(rover) && !this.simulation.fleet.abortOf(rover)) {
+          this.simulation.submit(rover, plan);
+        }
+      });
+    }
+
+    const due = this.downlink.filter(frame => frame.arrivesAt <= tick);
+    this.downlink = this.downlink.filter(frame => frame.arrivesAt > tick);
+    due.filter(frame => !frame.dropped).forEach(({ dropped, ...telemetry }) => {
+      this.received.set(telemetry.rover, (this.received.get(telemetry.rover) ?? 0) + 1);
+      this.listeners.forEach(listener => listener(telemetry));
+    });
+  }
+
+  private drops(): boolean {
+    return this.loss > 0 && this.random.next() < this.loss;
+  }
+
+  // Mission control cannot see whether a packet will be lost until it was due.
+  private describe({ dropped, ...packet }: UplinkPacket & { dropped: boolean }): UplinkPacket {
+    return { ...packet };
+  }
+}
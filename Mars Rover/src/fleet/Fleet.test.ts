@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+import { Fleet } from './Fleet';
+
+const [NORTH, EAST, SOUTH] = CARDINAL_DIRECTIONS;
+
+test('runs each rover sequence and reports every rover', () => {
+  const fleet = new Fleet(new Grid(5, 5));
+  fleet.deploy('a', 0, 0, NORTH!);
+  fleet.deploy('b', 4, 4, SOUTH!);
+  assert.deepEqual(fleet.run({ a: 'MMR', b: 'MRM' }), {
+    a: 'Rover is at (0, 2) facing E',
+    b: 'Rover is at (3, 3) facing W'
+  });
+});
+
+test('rovers block each other', () => {
+  const fleet = new Fleet(new Grid(5, 5));
+  fleet.deploy('a', 0, 0, EAST!);
+  fleet.deploy('b', 2, 0, NORTH!);
+  const events: string[] = [];
+  fleet.rover('a').subscribe(event => events.push(event.type));
+  fleet.run({ a: 'MMM' });
+  assert.equal(fleet.rover('a').report(), 'Rover is at (1, 0) facing E');
+  assert.equal(events.filter(type => type === 'blocked-by-obstacle').length, 2);
+});
+
+test('the execution mode decides who takes a contested cell', () => {
+  const contest = (mode: 'sequential' | 'interleaved') => {
+    const fleet = new Fleet(new Grid(5, 5));
+    fleet.deploy('a', 0, 1, EAST!);
+    fleet.deploy('b', 1, 3, SOUTH!);
+    return fleet.run({ a: 'RRRRM', b: 'MM' }, mode);
+  };
+  assert.deepEqual(contest('sequential'), { a: 'Rover is at (1, 1) facing E', b: 'Rover is at (1, 2) facing S' });
+  assert.deepEqual(contest('interleaved'), { a: 'Rover is at (0, 1) facing E', b: 'Rover is at (1, 1) facing S' });
+});
+
+test('refuses to deploy on taken, blocked or outside cells', () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Obstacle(2, 2));
+  const fleet = new Fleet(grid);
+  fleet.deploy('a', 0, 0, NORTH!);
+  assert.throws(() => fleet.deploy('a', 1, 1, NORTH!), /already deployed/);
+  assert.throws(() => fleet.deploy('b', 0, 0, NORTH!), /occupied cell/);
+  assert.throws(() => fleet.deploy('b', 2, 2, NORTH!), /occupied cell/);
+  assert.throws(() => fleet.deploy('b', 5, 0, NORTH!), /outside the grid/);
+  assert.throws(() => fleet.rover('c'), /Unknown rover 'c'/);
+});
@@ -0,0 +1,145 @@
+import { Grid } from '../grid/Grid';
+import { Rover, RoverOptions } from '../rover/Rover';
+import { Direction } from '../rover/Direction';
+import { Command } from '../commands/Command';
+import { CommandHistory } from '../commands/CommandHistory';
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+import { CommandParser } from '../language/CommandParser';
+import { CommandCompiler } from '../language/CommandCompiler';
+
+export type ExecutionMode = 'sequential' | 'interleaved';
+
+export class Fleet {
+  private rovers = new Map<string, Rover>();
+  private histories = new Map<string, CommandHistory>();
+  private aborts = new Map<string, SequenceAbortedError>();
+
+  constructor(readonly grid: Grid) {}
+
+  deploy(name: string, x: number, y: number, direction: Direction, options: RoverOptions = {}): Rover {
+    if (this.rovers.has(name)) {
+      throw new Error(`Rover '${name}' is already deployed`);
+    }
+    if (!this.grid.withinBounds(x, y)) {
+      throw new Error(`Cannot deploy rover '${name}' outside the grid at (${x}, ${y})`);
+    }
+    if (this.grid.isBlocked(x, y)) {
+      throw new Error(`Cannot deploy rover '${name}' on an occupied cell (${x}, ${y})`);
+    }
+
+    const rover = new Rover(x, y, direction, this.grid, options);
+    this.grid.add(rover);
+    this.rovers.set(name, rover);
+    this.histories.set(name, new CommandHistory());
+    return rover;
+  }
+
+  rover(name: string): Rover {
+    const rover = this.rovers.get(name);
+    if (!rover) {
+      throw new Error(`Unknown rover '${name}'`);
+    }
+    return rover;
+  }
+
+  history(name: string): CommandHistory {
+    this.rover(name);
+    return this.histories.get(name)!;
+  }
+
+  abortOf(name: string): SequenceAbortedError | undefined {
+    return this.aborts.get(name);
+  }
+
+  abort(name: string, error: SequenceAbortedError): void {
+    this.rover(name);
+    this.aborts.set(name, error);
+  }
+
+  names(): string[] {
+    return [...this.rovers.keys()];
+  }
+
+  run(sequences: Record<string, string>, mode: ExecutionMode = 'sequential'): Record<string, string> {
+    const queues = new Map<string, Command[]>();
+    for (const [name, sequence] of Object.entries(sequences)) {
+      queues.set(name, this.compile(name, sequence));
+    }
+
+    if (mode === 'sequential') {
+      queues.forEach((commands, name) => {
+        commands.forEach((command, index) => this.execute(name, command, index));
+      });
+    } else {
+      let pending = true;
+      for (let index = 0; pending; index++) {
+        pending = false;
+        queues.forEach((commands, name) => {
+          const command = commands[index];
+          if (command && this.execute(name, command, index)) {
+            pending = true;
+          }
+        });
+      }
+    }
+
+    queues.forEach((_, name) => this.rover(name).completeSequence());
+    return this.reports();
+  }
+
+  compile(name: string, sequence: string): Command[] {
+    const rover = this.rover(name);
+    this.aborts.delete(name);
+    return new CommandCompiler(rover).compile(new CommandParser({ allowHistory: false }).parse(sequence));
+  }
+
+  execute(name: string, command: Command, index: number): boolean {
+    if (this.aborts.has(name)) {
+      return false;
+    }
+    const run = this.start(name, command, index);
+    while (run && !this.proceed(name, run, index)) {
+      // Outside a simulation the whole command runs at once.
+    }
+    return !this.aborts.has(name);
+  }
+
+  // Plans a command up to its first maneuver. Returns null when there is nothing to run: the command
+  // finished without moving (a WHILE whose condition is false) or it aborted straight away.
+  start(name: string, command: Command, index: number): Iterator<void> | null {
+    const run = this.history(name).run(command);
+    this.rover(name).beginCommand(index);
+    return this.attempt(name, () => !!run.next().done) ? null : run;
+  }
+
+  // Makes the next maneuver of a started command; true when the command has finished or aborted.
+  proceed(name: string, run: Iterator<void>, index: number): boolean {
+    const rover = this.rover(name);
+    rover.beginCommand(index);
+    try {
+      return this.attempt(name, () => !!run.next().done);
+    } finally {
+      rover.tick();
+    }
+  }
+
+  reports(): Record<string, string> {
+    const reports: Record<string, string> = {};
+    this.rovers.forEach((rover, name) => {
+      reports[name] = rover.report();
+    });
+    return reports;
+  }
+
+  private attempt(name: string, action: () => boolean): boolean {
+    try {
+      return action();
+    } catch (error) {
+      if (error instanceof SequenceAbortedError) {
+        this.aborts.set(name, error);
+        return true;
+      }
+      throw error;
+    }
+  }
+}
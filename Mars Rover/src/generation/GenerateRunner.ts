@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import { MapGenerator, MapOptions } from './MapGenerator';
+import { MissionRunner } from '../mission/MissionRunner';
+import { MissionWriter } from '../mission/MissionWriter';
+import { AsciiMapWriter } from '../mission/AsciiMapWriter';
+import { ASCII_MAP_EXTENSION } from '../mission/AsciiMapParser';
+
+export function generateMission(options: MapOptions, ascii = false): string {
+  const mission = new MapGenerator().generate(options);
+  const simulation = new MissionRunner().prepare(mission);
+  if (ascii) {
+    return new AsciiMapWriter().write(simulation.grid, simulation.fleet.names().map(name => simulation.fleet.rover(name)));
+  }
+  const { seed, width, height, density, pattern, connected } = options;
+  const header = `# Generated map: seed=${seed} size=${width}x${height} density=${density} pattern=${pattern}${connected ? ' connected' : ''}\n`;
+  return header + new MissionWriter().write(simulation);
+}
+
+export async function runGenerate(options: MapOptions, outPath?: string): Promise<number> {
+  try {
+    const text = generateMission(options, outPath?.endsWith(ASCII_MAP_EXTENSION));
+    if (outPath && outPath !== '-') {
+      await fs.promises.writeFile(outPath, text);
+    } else {
+      process.stdout.write(text);
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n`);
+    return 1;
+  }
+}
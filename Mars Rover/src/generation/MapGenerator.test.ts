@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MapGenerator, MapOptions, MAP_PATTERNS } from './MapGenerator';
+import { Mission } from '../mission/Mission';
+
+const options = (overrides: Partial<MapOptions> = {}): MapOptions => ({
+  seed: 1,
+  width: 20,
+  height: 15,
+  density: 0.4,
+  pattern: 'scatter',
+  start: [0, 0],
+  connected: false,
+  ...overrides
+});
+
+// Free cells that cannot be reached from the start through the four axis-aligned neighbours.
+const stranded = ({ width, height, obstacles }: Mission, [sx, sy]: [number, number]): number => {
+  const blocked = new Set(obstacles.map(({ x, y }) => y * width + x));
+  const reached = new Set([sy * width + sx]);
+  const queue = [[sx, sy]];
+  for (let head = 0; head < queue.length; head++) {
+    const [x, y] = queue[head]!;
+    for (const [nx, ny] of [[x! + 1, y!], [x! - 1, y!], [x!, y! + 1], [x!, y! - 1]] as [number, number][]) {
+      const index = ny * width + nx;
+      if (nx >= 0 && ny >= 0 && nx < width && ny < height && !blocked.has(index) && !reached.has(index)) {
+        reached.add(index);
+        queue.push([nx, ny]);
+      }
+    }
+  }
+  return width * height - blocked.size - reached.size;
+};
+
+test('the same seed and options produce the same map', () => {
+  for (const pattern of MAP_PATTERNS) {
+    const first = new MapGenerator().generate(options({ pattern, seed: 42 }));
+    const second = new MapGenerator().generate(options({ pattern, seed: 42 }));
+    assert.deepEqual(first, second);
+  }
+  assert.notDeepEqual(new MapGenerator().generate(options({ seed: 1 })), new MapGenerator().generate(options({ seed: 2 })));
+});
+
+test('places about the requested density of obstacles and keeps the start free', () => {
+  const mission = new MapGenerator().generate(options({ start: [5, 5] }));
+  assert.ok(Math.abs(mission.obstacles.length - 120) <= 1);
+  assert.ok(!mission.obstacles.some(({ x, y }) => x === 5 && y === 5));
+  assert.deepEqual([mission.rovers[0]!.x, mission.rovers[0]!.y], [5, 5]);
+});
+
+test('connected maps leave no free cell stranded', () => {
+  for (const pattern of MAP_PATTERNS) {
+    for (let seed = 1; seed <= 5; seed++) {
+      const start: [number, number] = [seed, seed];
+      const mission = new MapGenerator().generate(options({ pattern, seed, density: 0.6, start, connected: true }));
+      assert.equal(stranded(mission, start), 0, `${pattern} seed ${seed}`);
+    }
+  }
+});
+
+test('connects large dense maps quickly', () => {
+  const started = Date.now();
+  const mission = new MapGenerator().generate(options({ width: 200, height: 200, density: 0.6, connected: true }));
+  assert.equal(stranded(mission, [0, 0]), 0);
+  assert.ok(Date.now() - started < 5000);
+});
+
+test('rejects invalid sizes, densities, starts and seeds', () => {
+  assert.throws(() => new MapGenerator().generate(options({ width: 0 })), /Map size/);
+  assert.throws(() => new MapGenerator().generate(options({ density: 1 })), /density/);
+  assert.throws(() => new MapGenerator().generate(options({ start: [20, 0] })), /outside/);
+  assert.throws(() => new MapGenerator().generate(options({ seed: NaN })), /Seed must be a whole number/);
+  assert.throws(() => new MapGenerator().generate(options({ seed: 1.5 })), /Seed must be a whole number/);
+});
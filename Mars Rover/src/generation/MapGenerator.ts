@@ -0,0 +1,268 @@
+import { Mission } from '../mission/Mission';
+import { SeededRandom } from '../util/SeededRandom';
+
+export type MapPattern = 'scatter' | 'clusters' | 'maze' | 'corridors';
+
+export const MAP_PATTERNS: readonly MapPattern[] = ['scatter', 'clusters', 'maze', 'corridors'];
+
+export interface MapOptions {
+  seed: number;
+  width: number;
+  height: number;
+  density: number;
+  pattern: MapPattern;
+  start: [number, number];
+  connected: boolean;
+}
+
+const NEIGHBOURS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// Every heading system can move along the four axis-aligned neighbours, so a map that is connected
+// through them is connected for 4-way, 8-way and hex rovers alike.
+export class MapGenerator {
+  private blocked: boolean[] = [];
+  private options!: MapOptions;
+  private random!: SeededRandom;
+
+  generate(options: MapOptions): Mission {
+    const { width, height, density, start } = options;
+    this.options = options;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new RangeError(`Map size must be positive integers, got ${width}x${height}`);
+    }
+    if (!Number.isSafeInteger(options.seed)) {
+      throw new RangeError(`Seed must be a whole number, got ${options.seed}`);
+    }
+    if (!(density >= 0 && density < 1)) {
+      throw new RangeError(`Obstacle density must be at least 0 and below 1, got ${density}`);
+    }
+    if (!this.inside(...start)) {
+      throw new RangeError(`Start (${start[0]}, ${start[1]}) is outside the ${width}x${height} map`);
+    }
+
+    this.random = new SeededRandom(options.seed);
+    this.blocked = new Array(width * height).fill(false);
+    const target = Math.round(density * width * height);
+    switch (options.pattern) {
+      case 'scatter': this.scatter(target); break;
+      case 'clusters': this.clusters(target); break;
+      case 'maze': this.maze(target); break;
+      case 'corridors': this.corridors(target); break;
+    }
+    this.set(...start, false);
+    if (options.connected) {
+      this.connect();
+    }
+
+    const obstacles: { x: number; y: number }[] = [];
+    this.blocked.forEach((blocked, index) => {
+      if (blocked) {
+        obstacles.push({ x: index % width, y: Math.floor(index / width) });
+      }
+    });
+    return {
+      width,
+      height,
+      mode: 'sequential',
+      boundary: 'wall',
+      headings: '4',
+      obstacles,
+      movingObstacles: [],
+      terrain: [],
+      samples: [],
+      rovers: [{ name: 'rover', x: start[0], y: start[1], heading: 'N', commands: '', capabilities: [] }],
+      objectives: []
+    };
+  }
+
+  private scatter(target: number): void {
+    const cells = this.shuffled(this.blocked.map((_, index) => index));
+    cells.slice(0, target).forEach(index => (this.blocked[index] = true));
+  }
+
+  // Grows blobs from random seeds one neighbouring cell at a time.
+  private clusters(target: number): void {
+    const count = Math.max(1, Math.round(Math.sqrt(target) / 2));
+    const frontier: [number, number][] = [];
+    for (let i = 0; i < count && i < target; i++) {
+      const cell = this.randomCell();
+      if (!this.isBlocked(...cell)) {
+        this.set(...cell, true);
+        frontier.push(cell);
+      }
+    }
+    let placed = this.blocked.filter(Boolean).length;
+    while (placed < target && frontier.length > 0) {
+      const index = this.random.int(frontier.length);
+      const [x, y] = frontier[index]!;
+      const options = NEIGHBOURS.map(([dx, dy]): [number, number] => [x + dx, y + dy])
+        .filter(([nx, ny]) => this.inside(nx, ny) && !this.isBlocked(nx, ny));
+      if (options.length === 0) {
+        frontier.splice(index, 1);
+        continue;
+      }
+      const next = options[this.random.int(options.length)]!;
+      this.set(...next, true);
+      frontier.push(next);
+      placed++;
+    }
+  }
+
+  // A recursive-backtracker maze on the even cells, then random walls knocked out until the density is met.
+  private maze(target: number): void {
+    this.blocked.fill(true);
+    const [sx, sy] = this.options.start;
+    const origin: [number, number] = [sx - (sx % 2), sy - (sy % 2)];
+    const stack: [number, number][] = [origin];
+    this.set(...origin, false);
+    while (stack.length > 0) {
+      const [x, y] = stack[stack.length - 1]!;
+      const options = this.shuffled(NEIGHBOURS)
+        .map(([dx, dy]): [number, number, number, number] => [x + dx, y + dy, x + 2 * dx, y + 2 * dy])
+        .filter(([, , nx, ny]) => this.inside(nx, ny) && this.isBlocked(nx, ny));
+      const next = options[0];
+      if (!next) {
+        stack.pop();
+        continue;
+      }
+      this.set(next[0], next[1], false);
+      this.set(next[2], next[3], false);
+      stack.push([next[2], next[3]]);
+    }
+    this.openUntil(target);
+  }
+
+  // Starts solid and digs straight tunnels in random directions until enough rock is cleared.
+  private corridors(target: number): void {
+    this.blocked.fill(true);
+    let [x, y] = this.options.start;
+    this.set(x, y, false);
+    let open = 1;
+    const wanted = this.blocked.length - target;
+    for (let attempts = 0; open < wanted && attempts < this.blocked.length * 20; attempts++) {
+      const [dx, dy] = NEIGHBOURS[this.random.int(NEIGHBOURS.length)]!;
+      const length = 2 + this.random.int(Math.max(this.options.width, this.options.height));
+      for (let step = 0; step < length && open < wanted && this.inside(x + dx, y + dy); step++) {
+        x += dx;
+        y += dy;
+        if (this.isBlocked(x, y)) {
+          this.set(x, y, false);
+          open++;
+        }
+      }
+    }
+  }
+
+  private openUntil(target: number): void {
+    const walls = this.shuffled(this.blocked.map((_, index) => index).filter(index => this.blocked[index]));
+    walls.slice(0, Math.max(0, walls.length - target)).forEach(index => (this.blocked[index] = false));
+  }
+
+  // Joins every free region to the start's region, digging through as few obstacles as possible.
+  // One search from the start's region finds the cheapest way into every other region at once; the
+  // carved paths all lead back along the same search tree, so together they connect the whole map.
+  private connect(): void {
+    const { width } = this.options;
+    const [sx, sy] = this.options.start;
+    const regions = this.regions();
+    const home = regions[sy * width + sx]!;
+    const { cost, parent } = this.search(regions.flatMap((region, index) => (region === home ? [index] : [])));
+
+    const entries = new Map<number, number>();
+    regions.forEach((region, index) => {
+      const entry = entries.get(region);
+      if (region >= 0 && region !== home && (entry === undefined || cost[index]! < cost[entry]!)) {
+        entries.set(region, index);
+      }
+    });
+    entries.forEach(entry => {
+      for (let cell = entry; cell >= 0; cell = parent[cell]!) {
+        this.blocked[cell] = false;
+      }
+    });
+  }
+
+  // Labels every free cell with the region it belongs to, and obstacles with -1.
+  private regions(): number[] {
+    const { width } = this.options;
+    const labels: number[] = this.blocked.map(() => -1);
+    let count = 0;
+    this.blocked.forEach((blocked, origin) => {
+      if (blocked || labels[origin]! >= 0) {
+        return;
+      }
+      labels[origin] = count;
+      const queue = [origin];
+      for (let head = 0; head < queue.length; head++) {
+        for (const [nx, ny] of this.around(queue[head]!)) {
+          const next = ny * width + nx;
+          if (!this.blocked[next] && labels[next]! < 0) {
+            labels[next] = count;
+            queue.push(next);
+          }
+        }
+      }
+      count++;
+    });
+    return labels;
+  }
+
+  // 0-1 breadth-first search: free cells cost nothing and obstacles cost one, so following a cell's
+  // parents back to an origin removes the fewest obstacles.
+  private search(origins: number[]): { cost: number[]; parent: number[] } {
+    const { width } = this.options;
+    const cost: number[] = this.blocked.map(() => Infinity);
+    const parent: number[] = this.blocked.map(() => -1);
+    origins.forEach(origin => (cost[origin] = 0));
+    let level = [...origins];
+    let nextLevel: number[] = [];
+    for (let head = 0; head < level.length || nextLevel.length > 0; head++) {
+      if (head === level.length) {
+        [level, nextLevel, head] = [nextLevel, [], 0];
+      }
+      const index = level[head]!;
+      for (const [nx, ny] of this.around(index)) {
+        const next = ny * width + nx;
+        const step = cost[index]! + (this.blocked[next] ? 1 : 0);
+        if (step < cost[next]!) {
+          cost[next] = step;
+          parent[next] = index;
+          (this.blocked[next] ? nextLevel : level).push(next);
+        }
+      }
+    }
+    return { cost, parent };
+  }
+
+  private around(index: number): [number, number][] {
+    const { width } = this.options;
+    const x = index % width;
+    const y = Math.floor(index / width);
+    return NEIGHBOURS.map(([dx, dy]): [number, number] => [x + dx, y + dy]).filter(([nx, ny]) => this.inside(nx, ny));
+  }
+
+  private shuffled<T>(items: T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+      const j = this.random.int(i + 1);
+      [copy[i], copy[j]] = [copy[j]!, copy[i]!];
+    }
+    return copy;
+  }
+
+  private randomCell(): [number, number] {
+    return [this.random.int(this.options.width), this.random.int(this.options.height)];
+  }
+
+  private inside(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.options.width && y < this.options.height;
+  }
+
+  private isBlocked(x: number, y: number): boolean {
+    return this.blocked[y * this.options.width + x]!;
+  }
+
+  private set(x: number, y: number, blocked: boolean): void {
+    this.blocked[y * this.options.width + x] = blocked;
+  }
+}
@@ -0,0 +1,4 @@
+import { Cell } from './Cell';
+
+// The cell where rovers unload the samples they carry.
+export class Base extends Cell {}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from './Grid';
+import { Obstacle } from './Obstacle';
+import { BoundaryPolicy, boundaryPolicyFromName } from './BoundaryPolicy';
+import { MovementAbortedError } from './MovementAbortedError';
+import { Fleet } from '../fleet/Fleet';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+
+const [NORTH, , SOUTH, WEST] = CARDINAL_DIRECTIONS;
+
+const fleetOn = (policy: string) => {
+  const grid = new Grid(4, 3, boundaryPolicyFromName(policy)!);
+  grid.add(new Obstacle(1, 2));
+  return new Fleet(grid);
+};
+
+test('wrap carries the rover to the opposite edge', () => {
+  const fleet = fleetOn('wrap');
+  fleet.deploy('a', 0, 0, SOUTH!);
+  fleet.deploy('b', 0, 1, WEST!);
+  assert.deepEqual(fleet.run({ a: 'M', b: 'M' }), { a: 'Rover is at (0, 2) facing S', b: 'Rover is at (3, 1) facing W' });
+});
+
+test('wrap still stops at obstacles across the edge', () => {
+  const fleet = fleetOn('wrap');
+  fleet.deploy('a', 1, 0, SOUTH!);
+  assert.equal(fleet.run({ a: 'MR' }).a, 'Rover is at (1, 0) facing W');
+});
+
+test('wall blocks the move and carries on with the sequence', () => {
+  const fleet = fleetOn('wall');
+  fleet.deploy('a', 0, 0, SOUTH!);
+  fleet.deploy('b', 1, 1, NORTH!);
+  assert.deepEqual(fleet.run({ a: 'MLM', b: 'MRM' }), { a: 'Rover is at (1, 0) facing E', b: 'Rover is at (2, 1) facing E' });
+  assert.equal(fleet.abortOf('a'), undefined);
+});
+
+test('abort blocks the move and drops the rest of the sequence', () => {
+  const fleet = fleetOn('abort');
+  fleet.deploy('a', 0, 0, SOUTH!);
+  fleet.deploy('b', 1, 1, NORTH!);
+  assert.deepEqual(fleet.run({ a: 'MLM', b: 'MRM' }), { a: 'Rover is at (0, 0) facing S', b: 'Rover is at (1, 1) facing N' });
+  assert.ok(fleet.abortOf('a') instanceof MovementAbortedError);
+  assert.equal(fleet.abortOf('b')!.message, 'Movement aborted: obstacle at (1, 2)');
+});
+
+test('policies are chosen by name', () => {
+  const names = ['wrap', 'WALL', 'abort'].map(name => (boundaryPolicyFromName(name) as BoundaryPolicy).name());
+  assert.deepEqual(names, ['wrap', 'wall', 'abort']);
+  assert.equal(boundaryPolicyFromName('bounce'), undefined);
+});
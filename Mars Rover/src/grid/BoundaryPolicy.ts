@@ -0,0 +1,64 @@
+import { MovementAbortedError } from './MovementAbortedError';
+
+export type BlockReason = 'boundary' | 'obstacle' | 'terrain' | 'slope';
+
+export interface BoundaryPolicy {
+  name(): string;
+  resolve(x: number, y: number, width: number, height: number): [number, number] | null;
+  offsets(from: number, to: number, extent: number): number[];
+  blocked(x: number, y: number, reason: BlockReason): void;
+}
+
+export class WrapAroundPolicy implements BoundaryPolicy {
+  name(): string { return 'wrap'; }
+
+  resolve(x: number, y: number, width: number, height: number): [number, number] {
+    return [((x % width) + width) % width, ((y % height) + height) % height];
+  }
+
+  offsets(from: number, to: number, extent: number): number[] {
+    const direct = to - from;
+    return [direct, direct - extent, direct + extent];
+  }
+
+  blocked(): void {}
+}
+
+export class BlockAndContinuePolicy implements BoundaryPolicy {
+  name(): string { return 'wall'; }
+
+  resolve(): null {
+    return null;
+  }
+
+  offsets(from: number, to: number): number[] {
+    return [to - from];
+  }
+
+  blocked(): void {}
+}
+
+export class BlockAndAbortPolicy implements BoundaryPolicy {
+  name(): string { return 'abort'; }
+
+  resolve(): null {
+    return null;
+  }
+
+  offsets(from: number, to: number): number[] {
+    return [to - from];
+  }
+
+  blocked(x: number, y: number, reason: BlockReason): never {
+    throw new MovementAbortedError(x, y, reason);
+  }
+}
+
+export function boundaryPolicyFromName(name: string): BoundaryPolicy | undefined {
+  switch (name.toLowerCase()) {
+    case 'wrap': return new WrapAroundPolicy();
+    case 'wall': return new BlockAndContinuePolicy();
+    case 'abort': return new BlockAndAbortPolicy();
+    default: return undefined;
+  }
+}
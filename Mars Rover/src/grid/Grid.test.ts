@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from './Grid';
+import { Obstacle } from './Obstacle';
+import { Cell } from './Cell';
+
+test('finds components by cell and by region', () => {
+  const grid = new Grid(1000, 1000);
+  const near = new Obstacle(2, 3);
+  const far = new Obstacle(900, 900);
+  const ground = new Cell(2, 3);
+  [near, far, ground].forEach(component => grid.add(component));
+
+  assert.equal(grid.size, 3);
+  assert.deepEqual(grid.componentsAt(2, 3), [near, ground]);
+  assert.deepEqual(grid.componentsInRegion(0, 0, 10, 10), [near, ground]);
+  assert.equal(grid.componentsInRegion(999, 999, 0, 0).length, 3);
+  assert.deepEqual(grid.componentsAt(-1, 0), []);
+});
+
+test('only obstacles block a cell', () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Cell(1, 1));
+  grid.add(new Obstacle(2, 2));
+  assert.equal(grid.isBlocked(1, 1), false);
+  assert.equal(grid.isBlocked(2, 2), true);
+  assert.equal(grid.isBlocked(9, 9), false);
+});
+
+test('removes and relocates components', () => {
+  const grid = new Grid(5, 5);
+  const mover = { x: 0, y: 0, isObstacle: () => true };
+  grid.add(mover);
+  grid.add(new Obstacle(4, 4));
+  mover.x = 1;
+  grid.relocate(mover, 0, 0);
+  assert.equal(grid.isBlocked(0, 0), false);
+  assert.equal(grid.isBlocked(1, 0), true);
+
+  assert.equal(grid.remove(mover), true);
+  assert.equal(grid.remove(mover), false);
+  assert.equal(grid.removeAt(4, 4).length, 1);
+  assert.equal(grid.size, 0);
+});
+
+test('rejects components outside the grid', () => {
+  assert.throws(() => new Grid(5, 5).add(new Obstacle(5, 0)), /outside the 5x5 grid/);
+});
@@ -1,21 +1,140 @@
 import { GridComponent } from './GridComponent';
+import { Terrain } from './Terrain';
+import { HeightMap } from './HeightMap';
+import { BoundaryPolicy, BlockAndContinuePolicy } from './BoundaryPolicy';
+import { HeadingSystem, FourWayHeadings } from '../rover/HeadingSystem';
 
 export class Grid {
-  private components: GridComponent[] = [];
+  private cells = new Map<number, GridComponent[]>();
+  private count = 0;
 
-  constructor(private readonly width: number, private readonly height: number) {}
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    readonly boundaryPolicy: BoundaryPolicy = new BlockAndContinuePolicy(),
+    readonly headings: HeadingSystem = new FourWayHeadings(),
+    readonly elevation: HeightMap | null = null
+  ) {
+    if (elevation && (elevation.width !== width || elevation.height !== height)) {
+      throw new RangeError(`The ${elevation.width}x${elevation.height} height map does not match the ${width}x${height} grid`);
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
 
   add(component: GridComponent) {
-    this.components.push(component);
+    if (!this.withinBounds(component.x, component.y)) {
+      throw new RangeError(`Component at (${component.x}, ${component.y}) is outside the ${this.width}x${this.height} grid`);
+    }
+    this.insert(component, this.key(component.x, component.y));
+  }
+
+  remove(component: GridComponent): boolean {
+    return this.detach(component, this.key(component.x, component.y));
+  }
+
+  removeAt(x: number, y: number): GridComponent[] {
+    if (!this.withinBounds(x, y)) {
+      return [];
+    }
+    const key = this.key(x, y);
+    const removed = this.cells.get(key) ?? [];
+    this.cells.delete(key);
+    this.count -= removed.length;
+    return removed;
+  }
+
+  relocate(component: GridComponent, fromX: number, fromY: number): void {
+    if (this.detach(component, this.key(fromX, fromY))) {
+      this.insert(component, this.key(component.x, component.y));
+    }
+  }
+
+  componentsAt(x: number, y: number): GridComponent[] {
+    if (!this.withinBounds(x, y)) {
+      return [];
+    }
+    return [...(this.cells.get(this.key(x, y)) ?? [])];
+  }
+
+  componentsInRegion(x1: number, y1: number, x2: number, y2: number): GridComponent[] {
+    const minX = Math.max(0, Math.min(x1, x2));
+    const maxX = Math.min(this.width - 1, Math.max(x1, x2));
+    const minY = Math.max(0, Math.min(y1, y2));
+    const maxY = Math.min(this.height - 1, Math.max(y1, y2));
+    const found: GridComponent[] = [];
+
+    if ((maxX - minX + 1) * (maxY - minY + 1) <= this.cells.size) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          found.push(...(this.cells.get(this.key(x, y)) ?? []));
+        }
+      }
+    } else {
+      this.cells.forEach(components => {
+        components.forEach(c => {
+          if (c.x >= minX && c.x <= maxX && c.y >= minY && c.y <= maxY) {
+            found.push(c);
+          }
+        });
+      });
+    }
+    return found;
+  }
+
+  terrainAt(x: number, y: number): Terrain | undefined {
+    return this.componentsAt(x, y).find((c): c is Terrain => c instanceof Terrain);
+  }
+
+  heightAt(x: number, y: number): number {
+    return this.elevation?.heightAt(x, y) ?? 0;
   }
 
   withinBounds(x: number, y: number): boolean {
     return x >= 0 && y >= 0 && x < this.width && y < this.height;
   }
 
+  resolve(x: number, y: number): [number, number] | null {
+    if (this.withinBounds(x, y)) {
+      return [x, y];
+    }
+    return this.boundaryPolicy.resolve(x, y, this.width, this.height);
+  }
+
   isBlocked(x: number, y: number): boolean {
-    return this.components.some(
-      (c) => c.isObstacle() && (c as any).x === x && (c as any).y === y
-    );
+    if (!this.withinBounds(x, y)) {
+      return false;
+    }
+    return this.cells.get(this.key(x, y))?.some(c => c.isObstacle()) ?? false;
+  }
+
+  private key(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  private insert(component: GridComponent, key: number): void {
+    const components = this.cells.get(key);
+    if (components) {
+      components.push(component);
+    } else {
+      this.cells.set(key, [component]);
+    }
+    this.count++;
+  }
+
+  private detach(component: GridComponent, key: number): boolean {
+    const components = this.cells.get(key);
+    const index = components ? components.indexOf(component) : -1;
+    if (!components || index < 0) {
+      return false;
+    }
+    components.splice(index, 1);
+    if (components.length === 0) {
+      this.cells.delete(key);
+    }
+    this.count--;
+    return true;
   }
 }
@@ -1,3 +1,5 @@
 export abstract class GridComponent {
+  abstract readonly x: number;
+  abstract readonly y: number;
   abstract isObstacle(): boolean;
 }
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HeightMap } from './HeightMap';
+import { Grid } from './Grid';
+import { BlockAndContinuePolicy } from './BoundaryPolicy';
+import { FourWayHeadings } from '../rover/HeadingSystem';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+import { RoverEvent } from '../rover/RoverEvents';
+import { Fleet } from '../fleet/Fleet';
+import { HeightMapParser } from '../mission/HeightMapParser';
+import { MissionParseError } from '../mission/MissionParseError';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+
+const ridge = () => new Grid(3, 1, new BlockAndContinuePolicy(), new FourWayHeadings(), new HeightMap([[0, 1, 3]]));
+
+test('reads rows north first', () => {
+  const map = new HeightMap([[5, 6], [1, 2]]);
+  assert.deepEqual([map.heightAt(0, 0), map.heightAt(1, 0), map.heightAt(0, 1), map.heightAt(1, 1)], [1, 2, 5, 6]);
+  assert.deepEqual(map.rows(), [[5, 6], [1, 2]]);
+});
+
+test('rejects empty, ragged and non-numeric maps and maps of the wrong size', () => {
+  assert.throws(() => new HeightMap([]), /at least one row/);
+  assert.throws(() => new HeightMap([[1, 2], [3]]), /row 2 has 1 values but row 1 has 2/);
+  assert.throws(() => new HeightMap([[1, NaN]]), /row 1, column 2 is not a finite number/);
+  assert.throws(() => new Grid(4, 1, new BlockAndContinuePolicy(), new FourWayHeadings(), new HeightMap([[0, 1, 3]])), /does not match the 4x1 grid/);
+});
+
+test('parses height map files with comments and blank lines', () => {
+  const map = new HeightMapParser().parse('# crater rim\n3 2.5 -1\n\n0 0 +4  # floor\n');
+  assert.deepEqual(map.rows(), [[3, 2.5, -1], [0, 0, 4]]);
+  const fails = (source: string, message: RegExp, line: number, column: number) => assert.throws(
+    () => new HeightMapParser().parse(source),
+    (error: unknown) => error instanceof MissionParseError && message.test(error.message) && error.line === line && error.column === column
+  );
+  fails('1 2\n3 4 5', /Row has 3 heights but line 1 has 2/, 2, 5);
+  fails('1 high', /Expected a height but found 'high'/, 1, 3);
+});
+
+test('stops rovers at height changes above their slope limit', () => {
+  const fleet = new Fleet(ridge());
+  const careful = fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[1]!, { maxSlope: 1 });
+  const events: RoverEvent[] = [];
+  careful.subscribe(event => events.push(event));
+  fleet.run({ a: 'MM' });
+  assert.deepEqual([careful.x, careful.y], [1, 0]);
+  assert.deepEqual(events[1], { type: 'too-steep', targetX: 2, targetY: 0, rise: 2, maxSlope: 1, commandIndex: 1, x: 1, y: 0 });
+
+  const climber = new Fleet(ridge()).deploy('b', 0, 0, CARDINAL_DIRECTIONS[1]!);
+  climber.moveForward();
+  climber.moveForward();
+  assert.equal(climber.x, 2);
+});
+
+test('plans around slopes that are too steep', () => {
+  const source = 'GRID 3 2\nELEVATION 0 0 0\nELEVATION 0 5 0\nROVER a 0 0 E G(2,0)\nMAXSLOPE a 1';
+  const simulation = new MissionRunner().prepare(new MissionParser().parse(source));
+  assert.equal(simulation.run().a, 'Rover is at (2, 0) facing S');
+  assert.ok(!simulation.fleet.rover('a').trail().some(([x, y]) => x === 1 && y === 0));
+});
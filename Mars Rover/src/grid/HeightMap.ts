@@ -0,0 +1,34 @@
+// Ground height of every cell. Rows are given north first, the way a height matrix reads on the
+// page, so rows[0] is y = height - 1.
+export class HeightMap {
+  readonly width: number;
+  readonly height: number;
+  private readonly heights: number[][];
+
+  constructor(rows: number[][]) {
+    if (rows.length === 0 || rows[0]!.length === 0) {
+      throw new RangeError('A height map needs at least one row and one column');
+    }
+    const width = rows[0]!.length;
+    rows.forEach((row, index) => {
+      if (row.length !== width) {
+        throw new RangeError(`Height map row ${index + 1} has ${row.length} values but row 1 has ${width}`);
+      }
+      const invalid = row.findIndex(value => !Number.isFinite(value));
+      if (invalid >= 0) {
+        throw new RangeError(`Height map row ${index + 1}, column ${invalid + 1} is not a finite number`);
+      }
+    });
+    this.width = width;
+    this.height = rows.length;
+    this.heights = rows.map(row => [...row]);
+  }
+
+  heightAt(x: number, y: number): number {
+    return this.heights[this.height - 1 - y]?.[x] ?? 0;
+  }
+
+  rows(): number[][] {
+    return this.heights.map(row => [...row]);
+  }
+}
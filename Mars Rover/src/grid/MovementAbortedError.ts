@@ -0,0 +1,16 @@
+import { BlockReason } from './BoundaryPolicy';
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+
+const DESCRIPTIONS: Record<BlockReason, string> = {
+  boundary: 'grid edge',
+  obstacle: 'obstacle',
+  terrain: 'impassable terrain',
+  slope: 'slope too steep'
+};
+
+export class MovementAbortedError extends SequenceAbortedError {
+  constructor(public readonly x: number, public readonly y: number, public readonly reason: BlockReason) {
+    super(`Movement aborted: ${DESCRIPTIONS[reason]} at (${x}, ${y})`);
+    this.name = 'MovementAbortedError';
+  }
+}
@@ -0,0 +1,4 @@
+import { Cell } from './Cell';
+
+// A science sample lying on the ground. Rovers drive over it and pick it up with the collect command.
+export class Sample extends Cell {}
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from './Grid';
+import { Sand, Ice, Crater, Slope, terrainFromName } from './Terrain';
+import { Fleet } from '../fleet/Fleet';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+
+const [NORTH, EAST] = CARDINAL_DIRECTIONS;
+
+test('each terrain has its own traversal cost', () => {
+  const slope = new Slope(0, 0, EAST!);
+  assert.deepEqual([new Sand(0, 0).cost(), new Ice(0, 0).cost(1, 0), new Crater(0, 0).cost()], [2, 1, 3]);
+  assert.deepEqual([slope.cost(1, 0), slope.cost(-1, 0), slope.cost(0, 1)], [3, 0.5, 1]);
+});
+
+test('terrain is chosen by name and slopes need an uphill heading', () => {
+  assert.ok(terrainFromName('SAND', 1, 2) instanceof Sand);
+  assert.equal(terrainFromName('slope', 1, 2), undefined);
+  assert.ok(terrainFromName('slope', 1, 2, NORTH) instanceof Slope);
+  assert.equal(terrainFromName('lava', 1, 2), undefined);
+});
+
+test('rovers pay for sand and slide one cell further on ice', () => {
+  const grid = new Grid(6, 3);
+  grid.add(new Sand(1, 0));
+  grid.add(new Ice(3, 0));
+  const fleet = new Fleet(grid);
+  const rover = fleet.deploy('a', 0, 0, EAST!);
+  const slides: boolean[] = [];
+  rover.subscribe(event => event.type === 'moved' && slides.push(event.sliding));
+  fleet.run({ a: 'MMM' });
+  assert.deepEqual([rover.x, rover.y, rover.traversalCost], [4, 0, 4]);
+  assert.deepEqual(slides, [false, false, false, true]);
+});
+
+test('ice does not slide a rover off the grid', () => {
+  const grid = new Grid(2, 1);
+  grid.add(new Ice(1, 0));
+  const fleet = new Fleet(grid);
+  fleet.deploy('a', 0, 0, EAST!);
+  assert.equal(fleet.run({ a: 'M' }).a, 'Rover is at (1, 0) facing E');
+});
+
+test('craters stop rovers without the crater-descent capability', () => {
+  const grid = new Grid(3, 3);
+  grid.add(new Crater(0, 1));
+  grid.add(new Crater(1, 1));
+  const fleet = new Fleet(grid);
+  const plain = fleet.deploy('a', 0, 0, NORTH!);
+  const climber = fleet.deploy('b', 1, 0, NORTH!, { capabilities: [Crater.CAPABILITY] });
+  const blocks: string[] = [];
+  plain.subscribe(event => event.type === 'blocked-by-terrain' && blocks.push(event.terrain));
+  fleet.run({ a: 'M', b: 'M' });
+  assert.deepEqual([plain.y, climber.y, climber.traversalCost], [0, 1, 3]);
+  assert.deepEqual(blocks, ['crater']);
+});
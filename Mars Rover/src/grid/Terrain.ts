@@ -0,0 +1,74 @@
+import { Cell } from './Cell';
+import { Direction } from '../rover/Direction';
+
+export abstract class Terrain extends Cell {
+  abstract readonly kind: string;
+
+  cost(dx: number, dy: number): number {
+    return 1;
+  }
+
+  slide(): number {
+    return 0;
+  }
+
+  isPassable(capabilities: ReadonlySet<string>): boolean {
+    return true;
+  }
+}
+
+export class Sand extends Terrain {
+  readonly kind = 'sand';
+
+  cost(): number {
+    return 2;
+  }
+}
+
+export class Ice extends Terrain {
+  readonly kind = 'ice';
+
+  slide(): number {
+    return 1;
+  }
+}
+
+export class Crater extends Terrain {
+  static readonly CAPABILITY = 'crater-descent';
+  readonly kind = 'crater';
+
+  cost(): number {
+    return 3;
+  }
+
+  isPassable(capabilities: ReadonlySet<string>): boolean {
+    return capabilities.has(Crater.CAPABILITY);
+  }
+}
+
+export class Slope extends Terrain {
+  readonly kind = 'slope';
+
+  constructor(x: number, y: number, readonly uphill: Direction) {
+    super(x, y);
+  }
+
+  cost(dx: number, dy: number): number {
+    const [ux, uy] = this.uphill.move(0, 0);
+    const alignment = dx * ux + dy * uy;
+    if (alignment > 0) {
+      return 3;
+    }
+    return alignment < 0 ? 0.5 : 1;
+  }
+}
+
+export function terrainFromName(kind: string, x: number, y: number, uphill?: Direction): Terrain | undefined {
+  switch (kind.toLowerCase()) {
+    case 'sand': return new Sand(x, y);
+    case 'ice': return new Ice(x, y);
+    case 'crater': return new Crater(x, y);
+    case 'slope': return uphill ? new Slope(x, y, uphill) : undefined;
+    default: return undefined;
+  }
+}
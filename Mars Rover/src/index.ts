@@ -1,68 +1,164 @@
-import { Grid } from './grid/Grid';
-import { Obstacle } from './grid/Obstacle';
-import { Rover } from './rover/Rover';
-import { North } from './rover/Direction';
-import { MoveCommand } from './commands/MoveCommand';
-import { TurnLeftCommand } from './commands/TurnLeftCommand';
-import { TurnRightCommand } from './commands/TurnRightCommand';
-import * as readline from 'readline';
-
-const grid = new Grid(10, 10);
-grid.add(new Obstacle(2, 2));
-grid.add(new Obstacle(3, 5));
-
-const rover = new Rover(0, 0, new North(), grid);
-
-const commandMap: Record<string, () => any> = {
-  'M': () => new MoveCommand(rover),
-  'L': () => new TurnLeftCommand(rover),
-  'R': () => new TurnRightCommand(rover)
+import * as fs from 'fs';
+import { headingSystemFromName } from './rover/HeadingSystem';
+import { boundaryPolicyFromName } from './grid/BoundaryPolicy';
+import { Battery, DEFAULT_ENERGY_COSTS, SolarCharge } from './rover/Battery';
+import { runBatch } from './mission/BatchRunner';
+import { runReplay } from './persistence/ReplayRunner';
+import { ApiServer } from './server/ApiServer';
+import { RoverRepl } from './repl/RoverRepl';
+import { runGenerate } from './generation/GenerateRunner';
+import { MAP_PATTERNS, MapPattern } from './generation/MapGenerator';
+import { HeightMap } from './grid/HeightMap';
+import { HeightMapParser } from './mission/HeightMapParser';
+import { MissionParseError } from './mission/MissionParseError';
+import { FALLBACK_BEHAVIOURS, FallbackBehaviour } from './comms/CommLink';
+
+const args = process.argv.slice(2);
+const flag = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
 };
 
-const rl = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout
-});
-
-rl.question("Enter command sequence (use M=Move, L=Turn Left, R=Turn Right): ", (answer) => {
-  const sequence = answer.trim().toUpperCase().split('');
+// Prints the problem and returns null when the file cannot be used.
+const readHeightMap = (path: string): HeightMap | null => {
+  try {
+    return new HeightMapParser().parse(fs.readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error(`${path}:${error instanceof MissionParseError ? '' : ' '}${(error as Error).message}`);
+    return null;
+  }
+};
 
-  sequence.forEach(cmd => {
-    if (commandMap[cmd]) {
-      commandMap[cmd]().execute();
-    } else {
-      console.log(`Invalid command: ${cmd}`);
-    }
+if (args[0] === '--batch' || args[0] === '--resume') {
+  const source = args[1] && !args[1].startsWith('--') ? args[1] : undefined;
+  const savePath = flag('--save');
+  const recordPath = flag('--record');
+  const elevationPath = flag('--elevation');
+  runBatch(source, {
+    resume: args[0] === '--resume',
+    ...(savePath && { savePath }),
+    ...(recordPath && { recordPath }),
+    ...(elevationPath && { elevationPath })
+  }).then(code => {
+    process.exitCode = code;
   });
-
-  console.log("Final rover state:", rover.report());
-
-  rl.close();
-});
-
-
-
-
-
-
-
-
-
-// const grid = new Grid(10, 10);
-
-// grid.add(new Obstacle(2, 2));
-// grid.add(new Obstacle(3, 5));
-
-// const rover = new Rover(0, 0, new North(), grid);
-
-// const commandMap: Record<string, any> = {
-//   'M': () => new MoveCommand(rover),
-//   'L': () => new TurnLeftCommand(rover),
-//   'R': () => new TurnRightCommand(rover)
-// };
-
-// const sequence = ['M', 'M', 'R', 'M', 'L', 'M'];
-
-// sequence.forEach(cmd => commandMap[cmd]().execute());
-
-// console.log(rover.report());
+} else if (args[0] === '--serve') {
+  const port = args[1] ?? '8080';
+  if (!/^\d+$/.test(port) || Number(port) > 65535) {
+    console.error(`Invalid port '${port}' (expected a whole number from 0 to 65535)`);
+    process.exitCode = 1;
+  } else {
+    new ApiServer().listen(Number(port)).then(
+      address => console.log(`Rover API listening on http://${address.address}:${address.port}`),
+      error => {
+        console.error(`Cannot start the API server: ${error.message}`);
+        process.exitCode = 1;
+      }
+    );
+  }
+} else if (args[0] === '--generate') {
+  const size = flag('--size') ?? '20x20';
+  const start = flag('--start') ?? '0,0';
+  const density = flag('--density') ?? '0.25';
+  const pattern = (flag('--pattern') ?? 'scatter') as MapPattern;
+  const seed = flag('--seed') ?? '1';
+  const [width, height] = size.split('x').map(Number);
+  const [startX, startY] = start.split(',').map(Number);
+  if (!MAP_PATTERNS.includes(pattern)) {
+    console.error(`Unknown pattern '${pattern}' (expected ${MAP_PATTERNS.join(', ')})`);
+    process.exitCode = 1;
+  } else if (!/^-?\d+$/.test(seed)) {
+    console.error(`Invalid seed '${seed}' (expected a whole number)`);
+    process.exitCode = 1;
+  } else if (!/^\d+x\d+$/.test(size)) {
+    console.error(`Invalid size '${size}' (expected WIDTHxHEIGHT in whole numbers)`);
+    process.exitCode = 1;
+  } else if (!/^\d+,\d+$/.test(start)) {
+    console.error(`Invalid start '${start}' (expected x,y in whole numbers)`);
+    process.exitCode = 1;
+  } else if (!/^\d+(\.\d+)?$/.test(density) || Number(density) >= 1) {
+    console.error(`Invalid density '${density}' (expected a number from 0 up to but not including 1)`);
+    process.exitCode = 1;
+  } else {
+    runGenerate({
+      seed: Number(seed),
+      width: width!,
+      height: height!,
+      density: Number(density),
+      pattern,
+      start: [startX!, startY!],
+      connected: args.includes('--connected')
+    }, flag('--out')).then(code => {
+      process.exitCode = code;
+    });
+  }
+} else if (args[0] === '--replay') {
+  runReplay(args[1] ?? '').then(code => {
+    process.exitCode = code;
+  });
+} else {
+  const option = (flag: string, fallback: string): string => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] ?? '' : fallback;
+  };
+  const boundaryName = option('--boundary', 'wall');
+  const headingsName = option('--headings', '4');
+  const boundaryPolicy = boundaryPolicyFromName(boundaryName);
+  const headings = headingSystemFromName(headingsName);
+  const elevationPath = flag('--elevation');
+  const elevation = elevationPath ? readHeightMap(elevationPath) : undefined;
+  const maxSlope = flag('--max-slope');
+  const battery = flag('--battery');
+  const sensor = option('--sensor', '0');
+  const delay = flag('--delay');
+  const loss = Number(option('--loss', '0'));
+  const linkSeed = option('--seed', '1');
+  const fallback = option('--fallback', 'hold') as FallbackBehaviour;
+  if (elevation === null) {
+    process.exitCode = 1;
+  } else if (maxSlope !== undefined && !(Number(maxSlope) >= 0)) {
+    console.error(`Invalid maximum slope '${maxSlope}' (expected a number of at least 0)`);
+    process.exitCode = 1;
+  } else if (battery !== undefined && !(Number(battery) > 0)) {
+    console.error(`Invalid battery capacity '${battery}' (expected a number greater than 0)`);
+    process.exitCode = 1;
+  } else if (!/^\d+$/.test(sensor)) {
+    console.error(`Invalid sensor radius '${sensor}' (expected a whole number of cells)`);
+    process.exitCode = 1;
+  } else if (delay !== undefined && !/^\d+$/.test(delay)) {
+    console.error(`Invalid delay '${delay}' (expected a whole number of ticks)`);
+    process.exitCode = 1;
+  } else if (!(loss >= 0 && loss < 1)) {
+    console.error(`Invalid packet loss '${option('--loss', '0')}' (expected a number from 0 up to but not including 1)`);
+    process.exitCode = 1;
+  } else if (!/^\d+$/.test(linkSeed)) {
+    console.error(`Invalid seed '${linkSeed}' (expected a whole number)`);
+    process.exitCode = 1;
+  } else if (!FALLBACK_BEHAVIOURS.includes(fallback)) {
+    console.error(`Unknown fallback '${fallback}' (expected hold or continue)`);
+    process.exitCode = 1;
+  } else if (!boundaryPolicy) {
+    console.error(`Unknown boundary policy '${boundaryName}' (expected wrap, wall or abort)`);
+    process.exitCode = 1;
+  } else if (!headings) {
+    console.error(`Unknown heading system '${headingsName}' (expected 4, 8 or hex)`);
+    process.exitCode = 1;
+  } else {
+    const animate = args.indexOf('--animate');
+    const snapshot = args.indexOf('--snapshot');
+    const belief = args.indexOf('--belief');
+    const radius = Number(sensor);
+    new RoverRepl({
+      boundaryPolicy,
+      headings,
+      ...(animate >= 0 && { animateMs: Number(args[animate + 1]) || 200 }),
+      ...(snapshot >= 0 && { snapshotPath: args[snapshot + 1] ?? '-' }),
+      ...(battery !== undefined && { battery: new Battery(Number(battery), DEFAULT_ENERGY_COSTS, new SolarCharge(1, 24)) }),
+      ...(radius > 0 && { sensorRadius: radius }),
+      ...(belief >= 0 && { beliefPath: args[belief + 1] ?? '-' }),
+      ...(elevation && { elevation }),
+      ...(maxSlope !== undefined && { maxSlope: Number(maxSlope) }),
+      ...(delay !== undefined && { link: { delay: Number(delay), loss, seed: Number(linkSeed), fallback } })
+    }).start();
+  }
+}
@@ -0,0 +1,53 @@
+import { CommandNode } from './CommandNode';
+import { CommandSyntaxError } from './CommandSyntaxError';
+import { Command } from '../commands/Command';
+import { CommandHistory } from '../commands/CommandHistory';
+import { createCommand } from '../commands/CommandFactory';
+import { GotoCommand } from '../commands/GotoCommand';
+import { ExploreCommand } from '../commands/ExploreCommand';
+import { coverageStrategyFromName } from '../navigation/CoverageStrategy';
+import { UndoCommand, RedoCommand } from '../commands/HistoryCommand';
+import { IfCommand } from '../commands/IfCommand';
+import { WhileCommand } from '../commands/WhileCommand';
+import { Rover } from '../rover/Rover';
+
+export class CommandCompiler {
+  constructor(private readonly rover: Rover, private readonly history?: CommandHistory) {}
+
+  compile(nodes: CommandNode[]): Command[] {
+    const commands: Command[] = [];
+    nodes.forEach(node => this.emit(node, commands));
+    return commands;
+  }
+
+  private emit(node: CommandNode, commands: Command[]): void {
+    switch (node.kind) {
+      case 'primitive':
+        commands.push(createCommand(node.op, this.rover)!);
+        break;
+      case 'goto':
+        commands.push(new GotoCommand(this.rover, node.x, node.y));
+        break;
+      case 'explore':
+        commands.push(new ExploreCommand(this.rover, coverageStrategyFromName(node.strategy)!));
+        break;
+      case 'history':
+        if (!this.history) {
+          throw new CommandSyntaxError(`Undo/redo ('${node.op}') is not available here`, node.token.line, node.token.column);
+        }
+        commands.push(node.op === 'U' ? new UndoCommand(this.history) : new RedoCommand(this.history));
+        break;
+      case 'if':
+        commands.push(new IfCommand(this.rover, node.condition, this.compile(node.thenBranch), this.compile(node.elseBranch)));
+        break;
+      case 'while':
+        commands.push(new WhileCommand(this.rover, node.condition, this.compile(node.body)));
+        break;
+      case 'repeat':
+        for (let i = 0; i < node.count; i++) {
+          node.body.forEach(child => this.emit(child, commands));
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { Token, TokenType } from './Token';
+import { CommandSyntaxError } from './CommandSyntaxError';
+
+const PUNCTUATION: Record<string, TokenType> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '=': 'equals',
+  ',': 'comma',
+  ';': 'separator',
+  '\n': 'separator'
+};
+
+export class CommandLexer {
+  tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let index = 0;
+
+    while (index < source.length) {
+      const char = source[index]!;
+      const column = index - lineStart + 1;
+
+      if (char === '#') {
+        while (index < source.length && source[index] !== '\n') {
+          index++;
+        }
+      } else if (PUNCTUATION[char]) {
+        tokens.push({ type: PUNCTUATION[char]!, text: char, line, column });
+        index++;
+        if (char === '\n') {
+          line++;
+          lineStart = index;
+        }
+      } else if (/\s/.test(char)) {
+        index++;
+      } else if (/[0-9]/.test(char)) {
+        const text = this.consume(source, index, /[0-9]/);
+        tokens.push({ type: 'number', text, line, column });
+        index += text.length;
+      } else if (/[A-Za-z_]/.test(char)) {
+        const text = this.consume(source, index, /[A-Za-z_]/);
+        tokens.push({ type: 'word', text, line, column });
+        index += text.length;
+      } else {
+        throw new CommandSyntaxError(`Unexpected character '${char}'`, line, column);
+      }
+    }
+
+    tokens.push({ type: 'eof', text: '', line, column: index - lineStart + 1 });
+    return tokens;
+  }
+
+  private consume(source: string, start: number, pattern: RegExp): string {
+    let end = start;
+    while (end < source.length && pattern.test(source[end]!)) {
+      end++;
+    }
+    return source.slice(start, end);
+  }
+}
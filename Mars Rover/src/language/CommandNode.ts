@@ -0,0 +1,49 @@
+import { Token } from './Token';
+import { Condition } from '../rover/Sensor';
+import { CoverageStrategyName } from '../navigation/CoverageStrategy';
+
+export type CommandNode =
+  | { kind: 'primitive'; op: 'M' | 'L' | 'R' | 'C'; token: Token }
+  | { kind: 'history'; op: 'U' | 'Y'; token: Token }
+  | { kind: 'goto'; x: number; y: number; token: Token }
+  | { kind: 'explore'; strategy: CoverageStrategyName; token: Token }
+  | { kind: 'repeat'; count: number; body: CommandNode[]; token: Token }
+  | { kind: 'if'; condition: Condition; thenBranch: CommandNode[]; elseBranch: CommandNode[]; token: Token }
+  | { kind: 'while'; condition: Condition; body: CommandNode[]; token: Token };
+
+export function commandCount(nodes: CommandNode[]): number {
+  return nodes.reduce((total, node) => {
+    switch (node.kind) {
+      case 'repeat':
+        return total + node.count * commandCount(node.body);
+      case 'if':
+        return total + 1 + Math.max(commandCount(node.thenBranch), commandCount(node.elseBranch));
+      case 'while':
+        return total + 1 + commandCount(node.body);
+      default:
+        return total + 1;
+    }
+  }, 0);
+}
+
+// The commands a compiled sequence runs at the top level, in order: repeats are unrolled like the compiler does.
+export function expandRepeats(nodes: CommandNode[]): CommandNode[] {
+  return nodes.flatMap(node => (node.kind === 'repeat' ? Array.from({ length: node.count }, () => expandRepeats(node.body)).flat() : [node]));
+}
+
+export function describeNode(node: CommandNode): string {
+  switch (node.kind) {
+    case 'primitive':
+    case 'history':
+      return node.op;
+    case 'goto':
+      return `G(${node.x},${node.y})`;
+    case 'explore':
+      return `EXPLORE ${node.strategy.toUpperCase()}`;
+    case 'if':
+    case 'while':
+      return `${node.kind.toUpperCase()} ${node.condition.negated ? 'NOT ' : ''}${node.condition.sensor}`;
+    case 'repeat':
+      return `(${node.body.map(describeNode).join(' ')})x${node.count}`;
+  }
+}
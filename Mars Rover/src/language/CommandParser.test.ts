@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandParser } from './CommandParser';
+import { CommandSyntaxError } from './CommandSyntaxError';
+import { describeNode, expandRepeats } from './CommandNode';
+
+const labels = (source: string, parser = new CommandParser()) => expandRepeats(parser.parse(source)).map(describeNode);
+
+test('parses letters, gotos, repeats and groups', () => {
+  assert.deepEqual(labels('MLR G(3,4)'), ['M', 'L', 'R', 'G(3,4)']);
+  assert.deepEqual(labels('3M'), ['M', 'M', 'M']);
+  assert.deepEqual(labels('(MR)x2'), ['M', 'R', 'M', 'R']);
+});
+
+test('parses sensor conditions', () => {
+  assert.deepEqual(labels('WHILE NOT BLOCKED M'), ['WHILE NOT BLOCKED']);
+  assert.deepEqual(labels('IF EDGE THEN R ELSE M'), ['IF EDGE']);
+  assert.throws(() => new CommandParser().parse('IF WINDY THEN M'), CommandSyntaxError);
+});
+
+test('parses exploration strategies', () => {
+  assert.deepEqual(labels('EXPLORE'), ['EXPLORE FRONTIER']);
+  assert.deepEqual(labels('EXPLORE boustrophedon'), ['EXPLORE BOUSTROPHEDON']);
+});
+
+test('expands macros defined earlier in the sequence', () => {
+  assert.deepEqual(labels('DEF hop = MM\nhop R hop'), ['M', 'M', 'R', 'M', 'M']);
+});
+
+test('reports syntax errors with their line and column', () => {
+  assert.throws(
+    () => new CommandParser().parse('MM\nR Q'),
+    (error: unknown) => error instanceof CommandSyntaxError && error.line === 2 && error.column === 3
+  );
+  assert.throws(() => new CommandParser().parse('G'), /Go to needs a target/);
+  assert.throws(() => new CommandParser().parse('(MR'), /Missing '\)'/);
+});
+
+test('rejects undo and redo where history is not allowed', () => {
+  assert.deepEqual(labels('MU'), ['M', 'U']);
+  assert.throws(() => new CommandParser({ allowHistory: false }).parse('MU'), /Undo\/redo \('U'\) is not available here/);
+});
+
+test('rejects sequences that expand past the command limit', () => {
+  assert.throws(() => new CommandParser().parse('(1000M)x1000'), /expands to more than 100000 commands/);
+});
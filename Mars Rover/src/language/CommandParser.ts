@@ -0,0 +1,266 @@
+import { Token } from './Token';
+import { CommandNode, commandCount } from './CommandNode';
+import { CommandLexer } from './CommandLexer';
+import { CommandSyntaxError } from './CommandSyntaxError';
+import { Condition, SensorName, SENSOR_NAMES } from '../rover/Sensor';
+import { CoverageStrategyName, COVERAGE_STRATEGIES } from '../navigation/CoverageStrategy';
+
+const MAX_COMMANDS = 100000;
+const BUILTIN_LETTERS = /^[MLRCUYG]+$/;
+const RESERVED_WORDS = [
+  'DEF', 'X', 'IF', 'THEN', 'ELSE', 'WHILE', 'NOT', 'EXPLORE',
+  ...SENSOR_NAMES,
+  ...COVERAGE_STRATEGIES.map(name => name.toUpperCase())
+];
+
+export interface ParserOptions {
+  allowHistory: boolean;
+}
+
+export class CommandParser {
+  private macros = new Map<string, CommandNode[]>();
+  private tokens: Token[] = [];
+  private position = 0;
+
+  constructor(private readonly options: ParserOptions = { allowHistory: true }) {}
+
+  // A parser with the same options and macros, so trial parses cannot define macros in this one.
+  clone(): CommandParser {
+    const copy = new CommandParser(this.options);
+    this.macros.forEach((body, name) => copy.macros.set(name, body));
+    return copy;
+  }
+
+  macroNames(): string[] {
+    return [...this.macros.keys()];
+  }
+
+  parse(source: string): CommandNode[] {
+    this.tokens = new CommandLexer().tokenize(source);
+    this.position = 0;
+    const nodes: CommandNode[] = [];
+
+    while (this.peek().type !== 'eof') {
+      if (this.peek().type === 'separator') {
+        this.next();
+      } else if (this.isDefinition()) {
+        this.parseDefinition();
+      } else {
+        nodes.push(...this.parseItem());
+      }
+    }
+
+    if (commandCount(nodes) > MAX_COMMANDS) {
+      throw new CommandSyntaxError(`Sequence expands to more than ${MAX_COMMANDS} commands`, 1, 1);
+    }
+    return nodes;
+  }
+
+  private isDefinition(): boolean {
+    return this.isKeyword(this.peek(), 'DEF');
+  }
+
+  private parseDefinition(): void {
+    this.next();
+    const name = this.expect('word', 'a macro name');
+    const upper = name.text.toUpperCase();
+    if (RESERVED_WORDS.includes(upper) || BUILTIN_LETTERS.test(upper)) {
+      throw this.error(`Macro name '${name.text}' clashes with a built-in command`, name);
+    }
+    this.expect('equals', "'='");
+
+    const body: CommandNode[] = [];
+    while (this.peek().type !== 'separator' && this.peek().type !== 'eof') {
+      body.push(...this.parseItem());
+    }
+    if (body.length === 0) {
+      throw this.error(`Macro '${name.text}' has an empty body`, this.peek());
+    }
+    this.macros.set(upper, body);
+  }
+
+  private parseItem(): CommandNode[] {
+    const countToken = this.peek().type === 'number' ? this.next() : null;
+    const units = this.parseAtom();
+
+    if (countToken) {
+      units[0] = this.repeat(units[0]!, this.count(countToken), countToken);
+    }
+    const suffix = this.peek();
+    if (this.isKeyword(suffix, 'X') && this.peek(1).type === 'number') {
+      this.next();
+      const last = units.length - 1;
+      units[last] = this.repeat(units[last]!, this.count(this.next()), suffix);
+    }
+    return units;
+  }
+
+  private parseAtom(): CommandNode[] {
+    const token = this.next();
+    if (token.type === 'lparen') {
+      const body: CommandNode[] = [];
+      while (this.peek().type !== 'rparen') {
+        if (this.peek().type === 'eof' || this.peek().type === 'separator') {
+          throw this.error("Missing ')' to close the group", token);
+        }
+        body.push(...this.parseItem());
+      }
+      this.next();
+      if (body.length === 0) {
+        throw this.error('Empty group', token);
+      }
+      return [{ kind: 'repeat', count: 1, body, token }];
+    }
+    if (token.type === 'word') {
+      return this.parseWord(token);
+    }
+    throw this.error(`Unexpected ${this.describe(token)}`, token);
+  }
+
+  private parseWord(token: Token): CommandNode[] {
+    const upper = token.text.toUpperCase();
+    const macro = this.macros.get(upper);
+    if (macro) {
+      return [{ kind: 'repeat', count: 1, body: macro, token }];
+    }
+    if (upper === 'IF') {
+      return [this.parseIf(token)];
+    }
+    if (upper === 'WHILE') {
+      return [this.parseWhile(token)];
+    }
+    if (upper === 'EXPLORE') {
+      return [this.parseExplore(token)];
+    }
+    if (RESERVED_WORDS.includes(upper)) {
+      throw this.error(`Unexpected '${token.text}'`, token);
+    }
+    if (!BUILTIN_LETTERS.test(upper)) {
+      throw this.error(token.text.length === 1 ? `Invalid command '${token.text}'` : `Unknown command or macro '${token.text}'`, token);
+    }
+
+    return [...upper].map((letter, offset): CommandNode => {
+      const letterToken = { ...token, text: letter, column: token.column + offset };
+      switch (letter) {
+        case 'M':
+        case 'L':
+        case 'R':
+        case 'C':
+          return { kind: 'primitive', op: letter, token: letterToken };
+        case 'U':
+        case 'Y':
+          if (!this.options.allowHistory) {
+            throw this.error(`Undo/redo ('${letter}') is not available here`, letterToken);
+          }
+          return { kind: 'history', op: letter, token: letterToken };
+        default:
+          if (offset !== upper.length - 1 || this.peek().type !== 'lparen') {
+            throw this.error("Go to needs a target, e.g. 'G(3,4)'", letterToken);
+          }
+          return this.parseGoto(letterToken);
+      }
+    });
+  }
+
+  private parseIf(token: Token): CommandNode {
+    const condition = this.parseCondition();
+    this.expectKeyword('THEN');
+    const thenBranch = this.parseItem();
+    let elseBranch: CommandNode[] = [];
+    if (this.isKeyword(this.peek(), 'ELSE')) {
+      this.next();
+      elseBranch = this.parseItem();
+    }
+    return { kind: 'if', condition, thenBranch, elseBranch, token };
+  }
+
+  private parseWhile(token: Token): CommandNode {
+    const condition = this.parseCondition();
+    return { kind: 'while', condition, body: this.parseItem(), token };
+  }
+
+  private parseExplore(token: Token): CommandNode {
+    const next = this.peek();
+    const strategy = next.text.toLowerCase() as CoverageStrategyName;
+    if (next.type === 'word' && COVERAGE_STRATEGIES.includes(strategy)) {
+      this.next();
+      return { kind: 'explore', strategy, token };
+    }
+    return { kind: 'explore', strategy: 'frontier', token };
+  }
+
+  private parseCondition(): Condition {
+    const negated = this.isKeyword(this.peek(), 'NOT');
+    if (negated) {
+      this.next();
+    }
+    const token = this.peek();
+    const sensor = token.text.toUpperCase() as SensorName;
+    if (token.type !== 'word' || !SENSOR_NAMES.includes(sensor)) {
+      throw this.error(`Expected a sensor (${SENSOR_NAMES.join(' or ')}) but found ${this.describe(token)}`, token);
+    }
+    this.next();
+    return { sensor, negated };
+  }
+
+  private parseGoto(token: Token): CommandNode {
+    this.expect('lparen', "'('");
+    const x = Number(this.expect('number', 'an x coordinate').text);
+    this.expect('comma', "','");
+    const y = Number(this.expect('number', 'a y coordinate').text);
+    this.expect('rparen', "')'");
+    return { kind: 'goto', x, y, token };
+  }
+
+  private repeat(node: CommandNode, count: number, token: Token): CommandNode {
+    return { kind: 'repeat', count, body: [node], token };
+  }
+
+  private count(token: Token): number {
+    const value = Number(token.text);
+    if (value < 1 || value > MAX_COMMANDS) {
+      throw this.error(`Repeat count must be between 1 and ${MAX_COMMANDS}`, token);
+    }
+    return value;
+  }
+
+  private expect(type: Token['type'], description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.error(`Expected ${description} but found ${this.describe(token)}`, token);
+    }
+    return this.next();
+  }
+
+  private expectKeyword(keyword: string): Token {
+    const token = this.peek();
+    if (!this.isKeyword(token, keyword)) {
+      throw this.error(`Expected ${keyword} but found ${this.describe(token)}`, token);
+    }
+    return this.next();
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.text.toUpperCase() === keyword;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'eof' ? 'end of input' : `'${token.text}'`;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private error(message: string, token: Token): CommandSyntaxError {
+    return new CommandSyntaxError(message, token.line, token.column);
+  }
+}
@@ -0,0 +1,6 @@
+export class CommandSyntaxError extends Error {
+  constructor(public readonly reason: string, public readonly line: number, public readonly column: number) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = 'CommandSyntaxError';
+  }
+}
@@ -0,0 +1,8 @@
+export type TokenType = 'word' | 'number' | 'lparen' | 'rparen' | 'equals' | 'comma' | 'separator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
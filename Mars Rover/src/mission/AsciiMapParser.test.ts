@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AsciiMapParser } from './AsciiMapParser';
+import { AsciiMapWriter } from './AsciiMapWriter';
+import { MissionParseError } from './MissionParseError';
+import { MissionRunner } from './MissionRunner';
+import { Grid } from '../grid/Grid';
+import { BlockAndContinuePolicy } from '../grid/BoundaryPolicy';
+import { Fleet } from '../fleet/Fleet';
+import { EightWayHeadings } from '../rover/HeadingSystem';
+
+const MAP = ['..#.E', '.#...', 'N...#', ''].join('\n');
+
+test('reads obstacles and rovers with the top row as the northern edge', () => {
+  const mission = new AsciiMapParser().parse(`\n\n${MAP}\n`);
+  assert.deepEqual([mission.width, mission.height], [5, 3]);
+  assert.deepEqual(mission.obstacles, [{ x: 2, y: 2 }, { x: 1, y: 1 }, { x: 4, y: 0 }]);
+  assert.deepEqual(mission.rovers.map(r => [r.name, r.x, r.y, r.heading]), [['rover1', 4, 2, 'E'], ['rover2', 0, 0, 'N']]);
+  assert.equal(new AsciiMapParser().parse('S.').rovers[0]!.name, 'rover');
+});
+
+test('writes back the map it read', () => {
+  const simulation = new MissionRunner().prepare(new AsciiMapParser().parse(MAP));
+  const rovers = simulation.fleet.names().map(name => simulation.fleet.rover(name));
+  assert.equal(new AsciiMapWriter().write(simulation.grid, rovers), MAP);
+});
+
+test('reports the line and column of a malformed map', () => {
+  const fails = (source: string, message: RegExp, line: number, column: number) => assert.throws(
+    () => new AsciiMapParser().parse(source),
+    (error: unknown) => error instanceof MissionParseError && message.test(error.message) && error.line === line && error.column === column
+  );
+  fails('\n...\n..', /Row has 2 cells but line 2 has 3/, 3, 3);
+  fails('..\n.x', /Unexpected 'x'/, 2, 2);
+  fails('\n  \n', /The map is empty/, 1, 1);
+});
+
+test('cannot write headings the format has no symbol for', () => {
+  const grid = new Grid(2, 2, new BlockAndContinuePolicy(), new EightWayHeadings());
+  const rover = new Fleet(grid).deploy('a', 0, 0, grid.headings.fromName('NE')!);
+  assert.throws(() => new AsciiMapWriter().write(grid, [rover]), /faces NE; ASCII maps can only record N, E, S or W/);
+});
@@ -0,0 +1,63 @@
+import { Mission } from './Mission';
+import { MissionParseError } from './MissionParseError';
+
+export const ASCII_MAP_EXTENSION = '.map';
+
+const HEADINGS = new Set(['N', 'E', 'S', 'W']);
+
+// Reads a map drawn as text: '#' is an obstacle, '.' free ground and N, E, S or W a rover facing
+// that way. The top row is the northern edge, so the last line is y = 0 as in the grid renderer.
+export class AsciiMapParser {
+  parse(source: string): Mission {
+    const lines = source.split(/\r?\n/).map(line => line.trimEnd());
+    const first = lines.findIndex(line => line !== '');
+    if (first < 0) {
+      throw new MissionParseError('The map is empty', 1, 1);
+    }
+    let last = lines.length - 1;
+    while (lines[last] === '') {
+      last--;
+    }
+
+    const rows = lines.slice(first, last + 1);
+    const width = rows[0]!.length;
+    const height = rows.length;
+    const mission: Mission = {
+      width,
+      height,
+      mode: 'sequential',
+      boundary: 'wall',
+      headings: '4',
+      obstacles: [],
+      movingObstacles: [],
+      terrain: [],
+      samples: [],
+      rovers: [],
+      objectives: []
+    };
+
+    rows.forEach((row, index) => {
+      const line = first + index + 1;
+      const y = height - 1 - index;
+      if (row.length !== width) {
+        const column = Math.min(row.length, width) + 1;
+        throw new MissionParseError(`Row has ${row.length} cells but line ${first + 1} has ${width}; every row must be the same length`, line, column);
+      }
+      [...row].forEach((symbol, x) => {
+        if (symbol === '#') {
+          mission.obstacles.push({ x, y });
+        } else if (HEADINGS.has(symbol)) {
+          mission.rovers.push({ name: '', x, y, heading: symbol, commands: '', capabilities: [] });
+        } else if (symbol !== '.') {
+          throw new MissionParseError(`Unexpected '${symbol}' (expected '#', '.', N, E, S or W)`, line, x + 1);
+        }
+      });
+    });
+
+    // Rovers are named in reading order; a lone rover is simply 'rover'.
+    mission.rovers.forEach((rover, index) => {
+      rover.name = mission.rovers.length === 1 ? 'rover' : `rover${index + 1}`;
+    });
+    return mission;
+  }
+}
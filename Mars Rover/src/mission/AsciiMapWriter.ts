@@ -0,0 +1,25 @@
+import { Grid } from '../grid/Grid';
+import { Rover } from '../rover/Rover';
+
+// Draws a grid in the format AsciiMapParser reads. Only obstacles and rovers have a symbol, so
+// terrain is written as free ground and moving obstacles where they stand right now.
+export class AsciiMapWriter {
+  write(grid: Grid, rovers: Rover[] = []): string {
+    const rows: string[][] = [];
+    for (let y = grid.height - 1; y >= 0; y--) {
+      const row: string[] = [];
+      for (let x = 0; x < grid.width; x++) {
+        row.push(grid.componentsAt(x, y).some(c => c.isObstacle() && !(c instanceof Rover)) ? '#' : '.');
+      }
+      rows.push(row);
+    }
+    rovers.forEach(rover => {
+      const heading = rover.direction.name();
+      if (!['N', 'E', 'S', 'W'].includes(heading)) {
+        throw new RangeError(`Rover at (${rover.x}, ${rover.y}) faces ${heading}; ASCII maps can only record N, E, S or W`);
+      }
+      rows[grid.height - 1 - rover.y]![rover.x] = heading;
+    });
+    return rows.map(row => row.join('')).join('\n') + '\n';
+  }
+}
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import { MissionParser } from './MissionParser';
+import { MissionParseError } from './MissionParseError';
+import { MissionRunner } from './MissionRunner';
+import { AsciiMapParser, ASCII_MAP_EXTENSION } from './AsciiMapParser';
+import { HeightMapParser } from './HeightMapParser';
+import { SnapshotSerializer } from '../persistence/SnapshotSerializer';
+import { SimulationRecorder } from '../persistence/SimulationRecorder';
+import { Simulation } from '../simulation/Simulation';
+import { ObjectiveEvaluator } from '../objectives/ObjectiveEvaluator';
+
+export interface BatchOptions {
+  resume?: boolean;
+  savePath?: string;
+  recordPath?: string;
+  elevationPath?: string;
+}
+
+function readSource(path: string | undefined): Promise<string> {
+  if (path && path !== '-') {
+    return fs.promises.readFile(path, 'utf8');
+  }
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', chunk => (data += chunk));
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+}
+
+export async function runBatch(path?: string, options: BatchOptions = {}): Promise<number> {
+  let source = path && path !== '-' ? path : '<stdin>';
+  try {
+    const text = await readSource(path);
+    const runner = new MissionRunner();
+    const serializer = new SnapshotSerializer();
+    const parser = path?.endsWith(ASCII_MAP_EXTENSION) ? new AsciiMapParser() : new MissionParser();
+    let simulation: Simulation;
+    if (options.resume) {
+      simulation = serializer.restore(serializer.parse(text));
+    } else {
+      const mission = parser.parse(text);
+      if (options.elevationPath) {
+        // A separate height map file replaces any ELEVATION lines in the mission.
+        source = options.elevationPath;
+        mission.elevation = new HeightMapParser().parse(await fs.promises.readFile(source, 'utf8')).rows();
+      }
+      simulation = runner.prepare(mission);
+    }
+    const recorder = options.recordPath ? new SimulationRecorder(simulation, serializer) : null;
+
+    runner.complete(simulation).forEach(result => {
+      process.stdout.write(JSON.stringify(result) + '\n');
+    });
+    const report = simulation.objectives.length > 0 ? new ObjectiveEvaluator().evaluate(simulation) : null;
+    if (report) {
+      process.stdout.write(JSON.stringify(report) + '\n');
+    }
+    if (recorder) {
+      recorder.stop();
+      await fs.promises.writeFile(options.recordPath!, JSON.stringify(recorder.recording()) + '\n');
+    }
+    if (options.savePath) {
+      await fs.promises.writeFile(options.savePath, serializer.stringify(serializer.capture(simulation)));
+    }
+    return report?.mission === 'failed' ? 2 : 0;
+  } catch (error) {
+    if (error instanceof MissionParseError) {
+      process.stderr.write(`${source}:${error.message}\n`);
+    } else {
+      process.stderr.write(`${source}: ${(error as Error).message}\n`);
+    }
+    return 1;
+  }
+}
@@ -0,0 +1,39 @@
+import { HeightMap } from '../grid/HeightMap';
+import { MissionParseError } from './MissionParseError';
+
+// Reads a whitespace-separated matrix of heights, northern row first. Blank lines and '#' comments
+// are ignored.
+export class HeightMapParser {
+  parse(source: string): HeightMap {
+    const rows: number[][] = [];
+    let width = 0;
+    let firstLine = 0;
+    source.split(/\r?\n/).forEach((text, index) => {
+      const line = index + 1;
+      const comment = text.indexOf('#');
+      const tokens = [...(comment >= 0 ? text.slice(0, comment) : text).matchAll(/\S+/g)];
+      if (tokens.length === 0) {
+        return;
+      }
+      const row = tokens.map(token => parseHeight(token[0], line, token.index! + 1));
+      if (rows.length === 0) {
+        [width, firstLine] = [row.length, line];
+      } else if (row.length !== width) {
+        const column = row.length > width ? tokens[width]!.index! + 1 : text.trimEnd().length + 1;
+        throw new MissionParseError(`Row has ${row.length} heights but line ${firstLine} has ${width}; every row must be the same length`, line, column);
+      }
+      rows.push(row);
+    });
+    if (rows.length === 0) {
+      throw new MissionParseError('The height map is empty', 1, 1);
+    }
+    return new HeightMap(rows);
+  }
+}
+
+export function parseHeight(text: string, line: number, column: number): number {
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) {
+    throw new MissionParseError(`Expected a height but found '${text}'`, line, column);
+  }
+  return Number(text);
+}
@@ -0,0 +1,74 @@
+import { ExecutionMode } from '../fleet/Fleet';
+import { Objective } from '../objectives/Objective';
+import { LinkOptions } from '../comms/CommLink';
+
+export interface ObstacleSpec {
+  x: number;
+  y: number;
+}
+
+export interface SampleSpec {
+  x: number;
+  y: number;
+}
+
+export type MovingObstacleSpec =
+  | { pattern: 'patrol'; waypoints: [number, number][] }
+  | { pattern: 'wander'; x: number; y: number; seed: number }
+  | { pattern: 'blink'; x: number; y: number; visible: number; hidden: number; offset: number };
+
+export interface TerrainSpec {
+  kind: string;
+  x: number;
+  y: number;
+  uphill?: string;
+}
+
+export interface BatterySpec {
+  capacity: number;
+  move: number;
+  turn: number;
+  blocked: number;
+  recharge: number;
+  day?: number;
+}
+
+export interface RoverSpec {
+  name: string;
+  x: number;
+  y: number;
+  heading: string;
+  commands: string;
+  battery?: BatterySpec;
+  capabilities: string[];
+  sensorRadius?: number;
+  maxSlope?: number;
+  payload?: number;
+}
+
+export interface UplinkSpec {
+  tick: number;
+  rover: string;
+  commands: string;
+}
+
+export interface LinkSpec extends LinkOptions {
+  uplinks: UplinkSpec[];
+}
+
+export interface Mission {
+  width: number;
+  height: number;
+  mode: ExecutionMode;
+  boundary: string;
+  headings: string;
+  obstacles: ObstacleSpec[];
+  movingObstacles: MovingObstacleSpec[];
+  terrain: TerrainSpec[];
+  elevation?: number[][];
+  samples: SampleSpec[];
+  base?: SampleSpec;
+  rovers: RoverSpec[];
+  objectives: Objective[];
+  link?: LinkSpec;
+}
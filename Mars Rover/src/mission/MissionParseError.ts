@@ -0,0 +1,6 @@
+export class MissionParseError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`${line}:${column}: ${message}`);
+    this.name = 'MissionParseError';
+  }
+}
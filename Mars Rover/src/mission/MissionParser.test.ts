@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from './MissionParser';
+import { MissionParseError } from './MissionParseError';
+
+const parse = (source: string) => new MissionParser().parse(source);
+
+const fails = (source: string, message: RegExp, line: number, column: number) => {
+  assert.throws(
+    () => parse(source),
+    (error: unknown) => error instanceof MissionParseError && message.test(error.message) && error.line === line && error.column === column
+  );
+};
+
+test('parses the grid, obstacles, rovers and their commands', () => {
+  const mission = parse('# plateau\nGRID 10 8\nMODE interleaved\nOBSTACLE 2 2\nROVER alpha 0 0 N MMRM\nROVER beta 5 5 w');
+  assert.deepEqual([mission.width, mission.height, mission.mode], [10, 8, 'interleaved']);
+  assert.deepEqual(mission.obstacles, [{ x: 2, y: 2 }]);
+  assert.deepEqual(mission.rovers.map(r => [r.name, r.x, r.y, r.heading, r.commands]), [['alpha', 0, 0, 'N', 'MMRM'], ['beta', 5, 5, 'W', '']]);
+});
+
+test('requires a GRID declaration', () => {
+  fails('ROVER a 0 0 N', /GRID/, 1, 1);
+});
+
+test('rejects cells claimed twice', () => {
+  fails('GRID 5 5\nOBSTACLE 1 1\nROVER a 1 1 N', /Cell \(1, 1\) is already occupied by an obstacle/, 3, 9);
+});
+
+test('reports the line and column of malformed directives', () => {
+  fails('GRID 5 5\nFLY 1', /Unknown directive 'FLY'/, 2, 1);
+  fails('GRID 5 5\nOBSTACLE 1 x', /Expected a number but found 'x'/, 2, 12);
+  fails('GRID 5 5\nOBSTACLE 7 1', /outside the 5x5 grid/, 2, 10);
+  fails('GRID 5 5\nROVER a 0 0 Q', /Invalid heading 'Q'/, 2, 13);
+  fails('GRID 5 5\nROVER a 0 0 N MZ', /Unknown command or macro 'MZ'/, 2, 15);
+});
+
+test('parses batteries and requires a positive capacity', () => {
+  const [rover] = parse('GRID 5 5\nROVER a 0 0 N\nBATTERY a 12.5 move=2 recharge=0.5').rovers;
+  assert.deepEqual(rover!.battery, { capacity: 12.5, move: 2, turn: 0.5, blocked: 0.25, recharge: 0.5 });
+  fails('GRID 5 5\nROVER a 0 0 N\nBATTERY a 0', /Battery capacity must be greater than 0 but found 0/, 3, 11);
+  fails('GRID 5 5\nROVER a 0 0 N\nBATTERY a -2', /Expected a number but found '-2'/, 3, 11);
+});
+
+test('parses samples, the base, payloads and objectives', () => {
+  const mission = parse('GRID 5 5\nSAMPLE 2 2\nSAMPLE 2 2\nBASE 0 0\nROVER a 0 0 N\nPAYLOAD a 2\nOBJECTIVE deliver 2\nOBJECTIVE within 30');
+  assert.equal(mission.samples.length, 2);
+  assert.deepEqual(mission.base, { x: 0, y: 0 });
+  assert.equal(mission.rovers[0]!.payload, 2);
+  assert.deepEqual(mission.objectives, [{ kind: 'deliver', count: 2 }, { kind: 'within', commands: 30 }]);
+});
+
+test('rejects samples and bases on obstacles in either order', () => {
+  fails('GRID 5 5\nOBSTACLE 2 2\nSAMPLE 2 2', /occupied by an obstacle and cannot hold a sample/, 3, 8);
+  fails('GRID 5 5\nBASE 2 2\nOBSTACLE 2 2', /already holds the base/, 3, 10);
+});
+
+test('rejects samples and bases in craters in either order', () => {
+  fails('GRID 5 5\nTERRAIN crater 2 2\nSAMPLE 2 2', /is a crater and cannot hold a sample/, 3, 8);
+  fails('GRID 5 5\nTERRAIN crater 2 2\nBASE 2 2', /is a crater and cannot hold the base/, 3, 6);
+  fails('GRID 5 5\nSAMPLE 2 2\nTERRAIN crater 2 2', /already holds a sample/, 3, 16);
+  fails('GRID 5 5\nBASE 2 2\nTERRAIN crater 2 2', /already holds the base/, 3, 16);
+  assert.doesNotThrow(() => parse('GRID 5 5\nTERRAIN sand 2 2\nSAMPLE 2 2\nBASE 3 3\nTERRAIN ice 3 3'));
+});
+
+test('requires a BASE for deliver and return objectives', () => {
+  fails('GRID 5 5\nOBJECTIVE deliver 1', /OBJECTIVE deliver needs a BASE/, 2, 11);
+  fails('GRID 5 5\nROVER a 0 0 N\nOBJECTIVE return', /OBJECTIVE return needs a BASE/, 3, 11);
+  assert.doesNotThrow(() => parse('GRID 5 5\nOBJECTIVE return\nBASE 0 0'));
+});
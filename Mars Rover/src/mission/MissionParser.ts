@@ -0,0 +1,530 @@
+import { Mission, BatterySpec, RoverSpec } from './Mission';
+import { MissionParseError } from './MissionParseError';
+import { HeadingSystem, FourWayHeadings, headingSystemFromName } from '../rover/HeadingSystem';
+import { boundaryPolicyFromName } from '../grid/BoundaryPolicy';
+import { CommandParser } from '../language/CommandParser';
+import { CommandSyntaxError } from '../language/CommandSyntaxError';
+import { DEFAULT_ENERGY_COSTS } from '../rover/Battery';
+import { terrainFromName } from '../grid/Terrain';
+import { parseHeight } from './HeightMapParser';
+import { OBJECTIVE_KINDS } from '../objectives/Objective';
+import { FALLBACK_BEHAVIOURS, FallbackBehaviour } from '../comms/CommLink';
+
+const BATTERY_SETTINGS = ['move', 'turn', 'blocked', 'recharge', 'day'];
+const LINK_SETTINGS = ['loss', 'seed', 'fallback'];
+
+interface Token {
+  text: string;
+  column: number;
+}
+
+export class MissionParser {
+  private mission!: Mission;
+  private gridDeclared = false;
+  private headingSystem: HeadingSystem = new FourWayHeadings();
+  private occupied = new Map<string, string>();
+  private sites = new Map<string, string>();
+  private baseObjectives: (Token & { line: number })[] = [];
+  private terrainCells = new Map<string, string>();
+  private elevationLine = 0;
+
+  parse(source: string): Mission {
+    this.mission = { width: 0, height: 0, mode: 'sequential', boundary: 'wall', headings: '4', obstacles: [], movingObstacles: [], terrain: [], samples: [], rovers: [], objectives: [] };
+    this.gridDeclared = false;
+    this.headingSystem = new FourWayHeadings();
+    this.occupied.clear();
+    this.sites.clear();
+    this.baseObjectives = [];
+    this.terrainCells.clear();
+
+    source.split(/\r?\n/).forEach((text, index) => {
+      const tokens = this.tokenize(text);
+      if (tokens.length > 0) {
+        this.parseLine(tokens, index + 1);
+      }
+    });
+
+    if (!this.gridDeclared) {
+      throw new MissionParseError('Missing GRID declaration', 1, 1);
+    }
+    const rows = this.mission.elevation?.length ?? this.mission.height;
+    if (rows !== this.mission.height) {
+      throw new MissionParseError(`ELEVATION has ${rows} rows but the grid is ${this.mission.height} cells high`, this.elevationLine, 1);
+    }
+    const [objective] = this.baseObjectives;
+    if (objective && !this.mission.base) {
+      throw new MissionParseError(`OBJECTIVE ${objective.text.toLowerCase()} needs a BASE`, objective.line, objective.column);
+    }
+    return this.mission;
+  }
+
+  private tokenize(text: string): Token[] {
+    const comment = text.indexOf('#');
+    const content = comment >= 0 ? text.slice(0, comment) : text;
+    return [...content.matchAll(/\S+/g)].map(match => ({ text: match[0], column: match.index! + 1 }));
+  }
+
+  private parseLine(tokens: Token[], line: number): void {
+    const [directive, ...args] = tokens as [Token, ...Token[]];
+    const keyword = directive.text.toUpperCase();
+
+    if (keyword !== 'GRID' && keyword !== 'MODE' && keyword !== 'BOUNDARY' && keyword !== 'HEADINGS' && !this.gridDeclared) {
+      throw new MissionParseError(`${keyword} must come after the GRID declaration`, line, directive.column);
+    }
+
+    switch (keyword) {
+      case 'GRID':
+        this.parseGrid(directive, args, line);
+        break;
+      case 'MODE':
+        this.parseMode(directive, args, line);
+        break;
+      case 'BOUNDARY':
+        this.parseBoundary(directive, args, line);
+        break;
+      case 'HEADINGS':
+        this.parseHeadings(directive, args, line);
+        break;
+      case 'OBSTACLE':
+        this.parseObstacle(directive, args, line);
+        break;
+      case 'ROVER':
+        this.parseRover(directive, args, line);
+        break;
+      case 'PATROL':
+        this.parsePatrol(directive, args, line);
+        break;
+      case 'WANDER':
+        this.parseWander(directive, args, line);
+        break;
+      case 'BLINK':
+        this.parseBlink(directive, args, line);
+        break;
+      case 'TERRAIN':
+        this.parseTerrain(directive, args, line);
+        break;
+      case 'CAPABILITY':
+        this.parseCapability(directive, args, line);
+        break;
+      case 'BATTERY':
+        this.parseBattery(directive, args, line);
+        break;
+      case 'SENSOR':
+        this.parseSensor(directive, args, line);
+        break;
+      case 'ELEVATION':
+        this.parseElevation(directive, args, line);
+        break;
+      case 'MAXSLOPE':
+        this.parseMaxSlope(directive, args, line);
+        break;
+      case 'SAMPLE':
+        this.parseSample(directive, args, line);
+        break;
+      case 'BASE':
+        this.parseBase(directive, args, line);
+        break;
+      case 'PAYLOAD':
+        this.parsePayload(directive, args, line);
+        break;
+      case 'OBJECTIVE':
+        this.parseObjective(directive, args, line);
+        break;
+      case 'LINK':
+        this.parseLink(directive, args, line);
+        break;
+      case 'UPLINK':
+        this.parseUplink(directive, args, line);
+        break;
+      default:
+        throw new MissionParseError(`Unknown directive '${directive.text}'`, line, directive.column);
+    }
+  }
+
+  private parseGrid(directive: Token, args: Token[], line: number): void {
+    if (this.gridDeclared) {
+      throw new MissionParseError('GRID is declared more than once', line, directive.column);
+    }
+    this.expectArgs(directive, args, 2, 2, 'GRID <width> <height>', line);
+    this.mission.width = this.parseInteger(args[0]!, line, 1);
+    this.mission.height = this.parseInteger(args[1]!, line, 1);
+    this.gridDeclared = true;
+  }
+
+  private parseMode(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 1, 1, 'MODE sequential|interleaved', line);
+    const mode = args[0]!.text.toLowerCase();
+    if (mode !== 'sequential' && mode !== 'interleaved') {
+      throw new MissionParseError(`Unknown mode '${args[0]!.text}'`, line, args[0]!.column);
+    }
+    this.mission.mode = mode;
+  }
+
+  private parseBoundary(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 1, 1, 'BOUNDARY wrap|wall|abort', line);
+    const policy = boundaryPolicyFromName(args[0]!.text);
+    if (!policy) {
+      throw new MissionParseError(`Unknown boundary policy '${args[0]!.text}'`, line, args[0]!.column);
+    }
+    this.mission.boundary = policy.name();
+  }
+
+  private parseHeadings(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 1, 1, 'HEADINGS 4|8|hex', line);
+    if (this.mission.rovers.length > 0) {
+      throw new MissionParseError('HEADINGS must come before any ROVER declaration', line, directive.column);
+    }
+    const system = headingSystemFromName(args[0]!.text);
+    if (!system) {
+      throw new MissionParseError(`Unknown heading system '${args[0]!.text}'`, line, args[0]!.column);
+    }
+    this.headingSystem = system;
+    this.mission.headings = system.name();
+  }
+
+  private parseObstacle(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'OBSTACLE <x> <y>', line);
+    const [x, y] = this.parsePosition(args[0]!, args[1]!, line);
+    this.occupy(x, y, 'an obstacle', args[0]!, line);
+    const site = this.sites.get(`${x},${y}`);
+    if (site) {
+      throw new MissionParseError(`Cell (${x}, ${y}) already holds ${site}`, line, args[0]!.column);
+    }
+    this.mission.obstacles.push({ x, y });
+  }
+
+  private parseRover(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 4, Infinity, 'ROVER <name> <x> <y> <heading> [commands]', line);
+    const [name, xToken, yToken, heading, commands, ...rest] = args as [Token, Token, Token, Token, Token?, ...Token[]];
+
+    if (this.mission.rovers.some(rover => rover.name === name.text)) {
+      throw new MissionParseError(`Rover '${name.text}' is declared more than once`, line, name.column);
+    }
+    const [x, y] = this.parsePosition(xToken, yToken, line);
+    const direction = this.headingSystem.fromName(heading.text);
+    if (!direction) {
+      const expected = this.headingSystem.headings().map(d => d.name()).join(', ');
+      throw new MissionParseError(`Invalid heading '${heading.text}' (expected one of ${expected})`, line, heading.column);
+    }
+    const sequence = commands ? this.parseSequence(commands, rest, line) : '';
+
+    this.occupy(x, y, `rover '${name.text}'`, xToken, line);
+    this.mission.rovers.push({ name: name.text, x, y, heading: direction.name(), commands: sequence, capabilities: [] });
+  }
+
+  private parsePatrol(directive: Token, args: Token[], line: number): void {
+    const usage = 'PATROL <x> <y> <x> <y> [<x> <y> ...]';
+    this.expectArgs(directive, args, 4, Infinity, usage, line);
+    if (args.length % 2 !== 0) {
+      throw new MissionParseError(`Waypoints need both coordinates, expected ${usage}`, line, args[args.length - 1]!.column);
+    }
+    const waypoints: [number, number][] = [];
+    for (let i = 0; i < args.length; i += 2) {
+      waypoints.push(this.parsePosition(args[i]!, args[i + 1]!, line));
+    }
+    this.occupy(waypoints[0]![0], waypoints[0]![1], 'a moving obstacle', args[0]!, line);
+    this.mission.movingObstacles.push({ pattern: 'patrol', waypoints });
+  }
+
+  private parseWander(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 3, 'WANDER <x> <y> [seed]', line);
+    const [x, y] = this.parsePosition(args[0]!, args[1]!, line);
+    const seed = args[2] ? this.parseInteger(args[2], line, 0) : 1;
+    this.occupy(x, y, 'a moving obstacle', args[0]!, line);
+    this.mission.movingObstacles.push({ pattern: 'wander', x, y, seed });
+  }
+
+  private parseBlink(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 4, 5, 'BLINK <x> <y> <visible ticks> <hidden ticks> [offset]', line);
+    const [x, y] = this.parsePosition(args[0]!, args[1]!, line);
+    const visible = this.parseInteger(args[2]!, line, 1);
+    const hidden = this.parseInteger(args[3]!, line, 0);
+    const offset = args[4] ? this.parseInteger(args[4], line, 0) : 0;
+    this.occupy(x, y, 'a moving obstacle', args[0]!, line);
+    this.mission.movingObstacles.push({ pattern: 'blink', x, y, visible, hidden, offset });
+  }
+
+  private parseTerrain(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 3, 4, 'TERRAIN sand|ice|crater|slope <x> <y> [uphill heading]', line);
+    const [kind, xToken, yToken, uphillToken] = args as [Token, Token, Token, Token?];
+    const [x, y] = this.parsePosition(xToken, yToken, line);
+
+    let uphill: string | undefined;
+    if (kind.text.toLowerCase() === 'slope') {
+      if (!uphillToken) {
+        throw new MissionParseError('A slope needs an uphill heading', line, kind.column);
+      }
+      const direction = this.headingSystem.fromName(uphillToken.text);
+      if (!direction) {
+        throw new MissionParseError(`Invalid heading '${uphillToken.text}'`, line, uphillToken.column);
+      }
+      uphill = direction.name();
+    } else if (uphillToken) {
+      throw new MissionParseError('Only slopes take an uphill heading', line, uphillToken.column);
+    }
+    if (!terrainFromName(kind.text, x, y, this.headingSystem.fromName(uphill ?? ''))) {
+      throw new MissionParseError(`Unknown terrain '${kind.text}'`, line, kind.column);
+    }
+
+    const key = `${x},${y}`;
+    if (this.terrainCells.has(key)) {
+      throw new MissionParseError(`Cell (${x}, ${y}) already has terrain`, line, xToken.column);
+    }
+    const site = this.sites.get(key);
+    if (site && kind.text.toLowerCase() === 'crater') {
+      throw new MissionParseError(`Cell (${x}, ${y}) already holds ${site}`, line, xToken.column);
+    }
+    this.terrainCells.set(key, kind.text.toLowerCase());
+    this.mission.terrain.push({ kind: kind.text.toLowerCase(), x, y, ...(uphill && { uphill }) });
+  }
+
+  private parseCapability(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'CAPABILITY <rover> <capability>', line);
+    const rover = this.findRover(args[0]!, line);
+    rover.capabilities.push(args[1]!.text.toLowerCase());
+  }
+
+  private parseBattery(directive: Token, args: Token[], line: number): void {
+    const usage = 'BATTERY <rover> <capacity> [move=n] [turn=n] [blocked=n] [recharge=n] [day=ticks]';
+    this.expectArgs(directive, args, 2, 7, usage, line);
+    const [name, capacityToken, ...settings] = args as [Token, Token, ...Token[]];
+    const rover = this.findRover(name, line);
+    if (rover.battery) {
+      throw new MissionParseError(`Rover '${name.text}' already has a battery`, line, directive.column);
+    }
+
+    const capacity = this.parseDecimal(capacityToken, line);
+    if (capacity <= 0) {
+      throw new MissionParseError(`Battery capacity must be greater than 0 but found ${capacity}`, line, capacityToken.column);
+    }
+    const battery: BatterySpec = { capacity, ...DEFAULT_ENERGY_COSTS, recharge: 0 };
+    settings.forEach(token => {
+      const [key = '', value = ''] = token.text.split('=');
+      if (!BATTERY_SETTINGS.includes(key.toLowerCase())) {
+        throw new MissionParseError(`Unknown battery setting '${key}', expected ${usage}`, line, token.column);
+      }
+      const amount = this.parseDecimal({ text: value, column: token.column + key.length + 1 }, line);
+      switch (key.toLowerCase()) {
+        case 'move': battery.move = amount; break;
+        case 'turn': battery.turn = amount; break;
+        case 'blocked': battery.blocked = amount; break;
+        case 'recharge': battery.recharge = amount; break;
+        case 'day': battery.day = amount; break;
+      }
+    });
+    if (battery.day === 0) {
+      throw new MissionParseError('day must be greater than 0', line, directive.column);
+    }
+    rover.battery = battery;
+  }
+
+  private parseSensor(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'SENSOR <rover> <radius>', line);
+    const rover = this.findRover(args[0]!, line);
+    if (rover.sensorRadius !== undefined) {
+      throw new MissionParseError(`Rover '${args[0]!.text}' already has a sensor`, line, directive.column);
+    }
+    rover.sensorRadius = this.parseInteger(args[1]!, line, 1);
+  }
+
+  // One ELEVATION line per row of heights, northern row first, as in a height map file.
+  private parseElevation(directive: Token, args: Token[], line: number): void {
+    const { width, height } = this.mission;
+    this.expectArgs(directive, args, width, width, `ELEVATION followed by ${width} heights`, line);
+    const rows = (this.mission.elevation ??= []);
+    if (rows.length === height) {
+      throw new MissionParseError(`ELEVATION already has all ${height} rows of the grid`, line, directive.column);
+    }
+    rows.push(args.map(token => parseHeight(token.text, line, token.column)));
+    this.elevationLine = line;
+  }
+
+  private parseMaxSlope(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'MAXSLOPE <rover> <height change>', line);
+    const rover = this.findRover(args[0]!, line);
+    if (rover.maxSlope !== undefined) {
+      throw new MissionParseError(`Rover '${args[0]!.text}' already has a maximum slope`, line, directive.column);
+    }
+    rover.maxSlope = this.parseDecimal(args[1]!, line);
+  }
+
+  private parseSample(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'SAMPLE <x> <y>', line);
+    const [x, y] = this.parsePosition(args[0]!, args[1]!, line);
+    this.reachable(x, y, 'a sample', args[0]!, line);
+    this.mission.samples.push({ x, y });
+  }
+
+  private parseBase(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'BASE <x> <y>', line);
+    if (this.mission.base) {
+      throw new MissionParseError('BASE is declared more than once', line, directive.column);
+    }
+    const [x, y] = this.parsePosition(args[0]!, args[1]!, line);
+    this.reachable(x, y, 'the base', args[0]!, line);
+    this.mission.base = { x, y };
+  }
+
+  private parsePayload(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 2, 2, 'PAYLOAD <rover> <capacity>', line);
+    const rover = this.findRover(args[0]!, line);
+    if (rover.payload !== undefined) {
+      throw new MissionParseError(`Rover '${args[0]!.text}' already has a payload`, line, directive.column);
+    }
+    rover.payload = this.parseInteger(args[1]!, line, 1);
+  }
+
+  private parseObjective(directive: Token, args: Token[], line: number): void {
+    const usage = 'OBJECTIVE collect <n> | deliver <n> | return | within <commands>';
+    this.expectArgs(directive, args, 1, 2, usage, line);
+    const [kindToken, valueToken] = args as [Token, Token?];
+    const kind = kindToken.text.toLowerCase();
+    if (!(OBJECTIVE_KINDS as readonly string[]).includes(kind)) {
+      throw new MissionParseError(`Unknown objective '${kindToken.text}', expected ${usage}`, line, kindToken.column);
+    }
+    if (kind === 'deliver' || kind === 'return') {
+      this.baseObjectives.push({ ...kindToken, line });
+    }
+    if (kind === 'return') {
+      this.expectArgs(directive, args, 1, 1, 'OBJECTIVE return', line);
+      this.mission.objectives.push({ kind });
+      return;
+    }
+    if (!valueToken) {
+      throw new MissionParseError(`Too few arguments, expected OBJECTIVE ${kind} <${kind === 'within' ? 'commands' : 'n'}>`, line, directive.column);
+    }
+    const value = this.parseInteger(valueToken, line, kind === 'within' ? 0 : 1);
+    this.mission.objectives.push(kind === 'within' ? { kind, commands: value } : { kind: kind as 'collect' | 'deliver', count: value });
+  }
+
+  private parseLink(directive: Token, args: Token[], line: number): void {
+    const usage = 'LINK <delay ticks> [loss=p] [seed=n] [fallback=hold|continue]';
+    this.expectArgs(directive, args, 1, 4, usage, line);
+    if (this.mission.link) {
+      throw new MissionParseError('LINK is declared more than once', line, directive.column);
+    }
+    const [delayToken, ...settings] = args as [Token, ...Token[]];
+    const link = { delay: this.parseInteger(delayToken, line, 0), loss: 0, seed: 1, fallback: 'hold' as FallbackBehaviour, uplinks: [] };
+    settings.forEach(token => {
+      const [key = '', value = ''] = token.text.split('=');
+      if (!LINK_SETTINGS.includes(key.toLowerCase())) {
+        throw new MissionParseError(`Unknown link setting '${key}', expected ${usage}`, line, token.column);
+      }
+      const valueToken = { text: value, column: token.column + key.length + 1 };
+      switch (key.toLowerCase()) {
+        case 'loss':
+          link.loss = this.parseDecimal(valueToken, line);
+          if (link.loss >= 1) {
+            throw new MissionParseError(`Packet loss must be below 1 but found ${link.loss}`, line, valueToken.column);
+          }
+          break;
+        case 'seed':
+          link.seed = this.parseInteger(valueToken, line, 0);
+          break;
+        case 'fallback':
+          if (!(FALLBACK_BEHAVIOURS as readonly string[]).includes(value.toLowerCase())) {
+            throw new MissionParseError(`Unknown fallback '${value}', expected hold or continue`, line, valueToken.column);
+          }
+          link.fallback = value.toLowerCase() as FallbackBehaviour;
+          break;
+      }
+    });
+    this.mission.link = link;
+  }
+
+  private parseUplink(directive: Token, args: Token[], line: number): void {
+    this.expectArgs(directive, args, 3, Infinity, 'UPLINK <tick> <rover> <commands>', line);
+    if (!this.mission.link) {
+      throw new MissionParseError('UPLINK needs a LINK declaration first', line, directive.column);
+    }
+    const [tickToken, name, commands, ...rest] = args as [Token, Token, Token, ...Token[]];
+    const tick = this.parseInteger(tickToken, line, 0);
+    this.findRover(name, line);
+    this.mission.link.uplinks.push({ tick, rover: name.text, commands: this.parseSequence(commands, rest, line) });
+  }
+
+  // Rebuilds the command text with its original spacing so syntax errors keep their columns.
+  private parseSequence(commands: Token, rest: Token[], line: number): string {
+    let sequence = commands.text;
+    rest.forEach(token => {
+      sequence = sequence.padEnd(token.column - commands.column) + token.text;
+    });
+    try {
+      new CommandParser({ allowHistory: false }).parse(sequence);
+    } catch (error) {
+      if (error instanceof CommandSyntaxError) {
+        throw new MissionParseError(error.reason, line, commands.column + error.column - 1);
+      }
+      throw error;
+    }
+    return sequence;
+  }
+
+  private findRover(name: Token, line: number): RoverSpec {
+    const rover = this.mission.rovers.find(r => r.name === name.text);
+    if (!rover) {
+      throw new MissionParseError(`Unknown rover '${name.text}' (declare it with ROVER first)`, line, name.column);
+    }
+    return rover;
+  }
+
+  private expectArgs(directive: Token, args: Token[], min: number, max: number, usage: string, line: number): void {
+    if (args.length < min) {
+      throw new MissionParseError(`Too few arguments, expected ${usage}`, line, directive.column);
+    }
+    if (args.length > max) {
+      throw new MissionParseError(`Too many arguments, expected ${usage}`, line, args[max]!.column);
+    }
+  }
+
+  private parsePosition(xToken: Token, yToken: Token, line: number): [number, number] {
+    const x = this.parseInteger(xToken, line, 0);
+    const y = this.parseInteger(yToken, line, 0);
+    if (x >= this.mission.width) {
+      throw new MissionParseError(`x = ${x} is outside the ${this.mission.width}x${this.mission.height} grid`, line, xToken.column);
+    }
+    if (y >= this.mission.height) {
+      throw new MissionParseError(`y = ${y} is outside the ${this.mission.width}x${this.mission.height} grid`, line, yToken.column);
+    }
+    return [x, y];
+  }
+
+  private parseInteger(token: Token, line: number, min: number): number {
+    if (!/^\d+$/.test(token.text)) {
+      throw new MissionParseError(`Expected a number but found '${token.text}'`, line, token.column);
+    }
+    const value = Number(token.text);
+    if (value < min) {
+      throw new MissionParseError(`Expected a number of at least ${min} but found ${value}`, line, token.column);
+    }
+    return value;
+  }
+
+  private parseDecimal(token: Token, line: number): number {
+    if (!/^\d+(\.\d+)?$/.test(token.text)) {
+      throw new MissionParseError(`Expected a number but found '${token.text}'`, line, token.column);
+    }
+    return Number(token.text);
+  }
+
+  private occupy(x: number, y: number, occupant: string, token: Token, line: number): void {
+    const key = `${x},${y}`;
+    const existing = this.occupied.get(key);
+    if (existing) {
+      throw new MissionParseError(`Cell (${x}, ${y}) is already occupied by ${existing}`, line, token.column);
+    }
+    this.occupied.set(key, occupant);
+  }
+
+  // Samples and the base share cells with rovers, but a rover could never reach one under an obstacle or in a crater.
+  private reachable(x: number, y: number, site: string, token: Token, line: number): void {
+    const key = `${x},${y}`;
+    if (this.occupied.get(key) === 'an obstacle') {
+      throw new MissionParseError(`Cell (${x}, ${y}) is occupied by an obstacle and cannot hold ${site}`, line, token.column);
+    }
+    if (this.terrainCells.get(key) === 'crater') {
+      throw new MissionParseError(`Cell (${x}, ${y}) is a crater and cannot hold ${site}`, line, token.column);
+    }
+    this.sites.set(key, this.sites.get(key) ?? site);
+  }
+}
@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MissionParser } from './MissionParser';
+import { MissionRunner } from './MissionRunner';
+
+test('runs the sample mission', () => {
+  const source = fs.readFileSync(path.join(__dirname, '../../missions/sample.mission'), 'utf8');
+  const results = new MissionRunner().run(new MissionParser().parse(source));
+  assert.deepEqual(results.map(({ rover, x, y, heading }) => [rover, x, y, heading]), [['alpha', 1, 3, 'N'], ['beta', 4, 4, 'W']]);
+});
+
+test('a rover without commands stays where it was deployed', () => {
+  const [result] = new MissionRunner().run(new MissionParser().parse('GRID 3 3\nROVER idle 1 1 E'));
+  assert.equal(result!.report, 'Rover is at (1, 1) facing E');
+});
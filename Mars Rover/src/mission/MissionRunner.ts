@@ -0,0 +1,148 @@
+import { Mission, BatterySpec, MovingObstacleSpec } from './Mission';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { boundaryPolicyFromName } from '../grid/BoundaryPolicy';
+import { terrainFromName } from '../grid/Terrain';
+import { HeightMap } from '../grid/HeightMap';
+import { Sample } from '../grid/Sample';
+import { Base } from '../grid/Base';
+import { Fleet } from '../fleet/Fleet';
+import { headingSystemFromName } from '../rover/HeadingSystem';
+import { Battery, ConstantCharge, SolarCharge } from '../rover/Battery';
+import { Payload } from '../rover/Payload';
+import { Simulation } from '../simulation/Simulation';
+import { MovingObstacle } from '../simulation/MovingObstacle';
+import { PatrolPattern, RandomWalkPattern, SchedulePattern } from '../simulation/MovementPattern';
+import { SeededRandom } from '../util/SeededRandom';
+import { BeliefExport } from '../rover/BeliefMap';
+import { CoverageReport } from '../navigation/CoverageStrategy';
+import { CommLink, LinkStats } from '../comms/CommLink';
+
+export interface RoverResult {
+  rover: string;
+  x: number;
+  y: number;
+  heading: string;
+  report: string;
+  ticks: number;
+  traversalCost: number;
+  battery?: number;
+  samples?: { carried: number; delivered: number };
+  belief?: BeliefExport;
+  exploration?: CoverageReport;
+  link?: LinkStats;
+  aborted?: string;
+}
+
+export class MissionRunner {
+  run(mission: Mission): RoverResult[] {
+    return this.complete(this.prepare(mission));
+  }
+
+  prepare(mission: Mission): Simulation {
+    const grid = new Grid(
+      mission.width,
+      mission.height,
+      boundaryPolicyFromName(mission.boundary),
+      headingSystemFromName(mission.headings),
+      mission.elevation ? new HeightMap(mission.elevation) : null
+    );
+    mission.obstacles.forEach(({ x, y }) => grid.add(new Obstacle(x, y)));
+    mission.terrain.forEach(({ kind, x, y, uphill }) => {
+      grid.add(terrainFromName(kind, x, y, uphill ? grid.headings.fromName(uphill) : undefined)!);
+    });
+    mission.samples.forEach(({ x, y }) => grid.add(new Sample(x, y)));
+    if (mission.base) {
+      grid.add(new Base(mission.base.x, mission.base.y));
+    }
+
+    const fleet = new Fleet(grid);
+    const simulation = new Simulation(grid, fleet, mission.mode);
+    simulation.objectives = [...mission.objectives];
+    mission.movingObstacles.forEach(spec => simulation.addObstacle(this.createMovingObstacle(spec)));
+    mission.rovers.forEach(spec => {
+      const options = {
+        capabilities: spec.capabilities,
+        ...(spec.sensorRadius !== undefined && { sensorRadius: spec.sensorRadius }),
+        ...(spec.maxSlope !== undefined && { maxSlope: spec.maxSlope }),
+        ...(spec.payload !== undefined && { payload: new Payload(spec.payload) }),
+        ...(spec.battery && { battery: this.createBattery(spec.battery) })
+      };
+      fleet.deploy(spec.name, spec.x, spec.y, grid.headings.fromName(spec.heading)!, options);
+    });
+    // Over a comms link the ROVER-line commands are the first uplink, sent at tick 0.
+    const { link } = mission;
+    if (link) {
+      simulation.link = new CommLink(simulation, link);
+      mission.rovers.filter(spec => spec.commands !== '').forEach(spec => simulation.link!.send(spec.name, spec.commands, 0));
+      link.uplinks.forEach(({ tick, rover, commands }) => simulation.link!.send(rover, commands, tick));
+    } else {
+      mission.rovers.forEach(spec => simulation.submit(spec.name, spec.commands));
+    }
+    return simulation;
+  }
+
+  complete(simulation: Simulation): RoverResult[] {
+    const { fleet } = simulation;
+    const explorations = new Map<string, CoverageReport>();
+    fleet.names().forEach(name => {
+      fleet.rover(name).subscribe(event => {
+        if (event.type === 'exploration-completed') {
+          explorations.set(name, event.report);
+        }
+      });
+    });
+    const reports = simulation.run();
+    return fleet.names().map(name => {
+      const rover = fleet.rover(name);
+      const result: RoverResult = {
+        rover: name,
+        x: rover.x,
+        y: rover.y,
+        heading: rover.direction.name(),
+        report: reports[name]!,
+        ticks: simulation.clock.tick,
+        traversalCost: rover.traversalCost
+      };
+      if (rover.battery) {
+        result.battery = Number(rover.battery.level.toFixed(2));
+      }
+      if (rover.payload) {
+        result.samples = { carried: rover.payload.carried.length, delivered: rover.payload.delivered.length };
+      }
+      if (rover.belief) {
+        result.belief = rover.belief.export();
+      }
+      const exploration = explorations.get(name);
+      if (exploration) {
+        result.exploration = exploration;
+      }
+      if (simulation.link) {
+        result.link = simulation.link.stats(name);
+      }
+      const abort = fleet.abortOf(name);
+      if (abort) {
+        result.aborted = abort.message;
+      }
+      return result;
+    });
+  }
+
+  private createMovingObstacle(spec: MovingObstacleSpec): MovingObstacle {
+    switch (spec.pattern) {
+      case 'patrol': {
+        const [x, y] = spec.waypoints[0]!;
+        return new MovingObstacle(x, y, new PatrolPattern(spec.waypoints));
+      }
+      case 'wander':
+        return new MovingObstacle(spec.x, spec.y, new RandomWalkPattern(new SeededRandom(spec.seed)));
+      case 'blink':
+        return new MovingObstacle(spec.x, spec.y, new SchedulePattern(spec.visible, spec.hidden, spec.offset));
+    }
+  }
+
+  private createBattery(spec: BatterySpec): Battery {
+    const profile = spec.day ? new SolarCharge(spec.recharge, spec.day) : new ConstantCharge(spec.recharge);
+    return new Battery(spec.capacity, { move: spec.move, turn: spec.turn, blocked: spec.blocked }, profile);
+  }
+}
@@ -0,0 +1,86 @@
+import { Obstacle } from '../grid/Obstacle';
+import { Slope, Terrain } from '../grid/Terrain';
+import { Sample } from '../grid/Sample';
+import { Base } from '../grid/Base';
+import { SolarCharge, ConstantCharge } from '../rover/Battery';
+import { Simulation } from '../simulation/Simulation';
+import { MovingObstacle } from '../simulation/MovingObstacle';
+import { formatObjective } from '../objectives/Objective';
+
+// Writes the current layout and rover positions as a mission file. Battery charge, belief maps,
+// carried samples, random walk positions and uplinks still in flight are not part of the mission format;
+// save a snapshot to keep those.
+export class MissionWriter {
+  write(simulation: Simulation): string {
+    const { grid, fleet } = simulation;
+    const lines = [
+      `GRID ${grid.width} ${grid.height}`,
+      `MODE ${simulation.mode}`,
+      `BOUNDARY ${grid.boundaryPolicy.name()}`,
+      `HEADINGS ${grid.headings.name()}`
+    ];
+
+    grid.componentsInRegion(0, 0, grid.width - 1, grid.height - 1).forEach(component => {
+      if (component instanceof Obstacle) {
+        lines.push(`OBSTACLE ${component.x} ${component.y}`);
+      } else if (component instanceof Slope) {
+        lines.push(`TERRAIN slope ${component.x} ${component.y} ${component.uphill.name()}`);
+      } else if (component instanceof Terrain) {
+        lines.push(`TERRAIN ${component.kind} ${component.x} ${component.y}`);
+      } else if (component instanceof Sample) {
+        lines.push(`SAMPLE ${component.x} ${component.y}`);
+      } else if (component instanceof Base) {
+        lines.push(`BASE ${component.x} ${component.y}`);
+      }
+    });
+    grid.elevation?.rows().forEach(row => lines.push(`ELEVATION ${row.join(' ')}`));
+    simulation.movingObstacles().forEach(obstacle => lines.push(this.movingObstacle(obstacle, simulation.clock.tick)));
+
+    fleet.names().forEach(name => {
+      const rover = fleet.rover(name);
+      lines.push(`ROVER ${name} ${rover.x} ${rover.y} ${rover.direction.name()}`);
+      rover.capabilities.forEach(capability => lines.push(`CAPABILITY ${name} ${capability}`));
+      if (rover.battery) {
+        const { capacity, costs, profile } = rover.battery;
+        const charge =
+          profile instanceof SolarCharge ? `recharge=${profile.peakRate} day=${profile.dayLength}` :
+          profile instanceof ConstantCharge ? `recharge=${profile.rate}` : '';
+        lines.push(`BATTERY ${name} ${capacity} move=${costs.move} turn=${costs.turn} blocked=${costs.blocked} ${charge}`.trimEnd());
+      }
+      if (rover.belief) {
+        lines.push(`SENSOR ${name} ${rover.belief.sensorRadius}`);
+      }
+      if (rover.maxSlope !== null) {
+        lines.push(`MAXSLOPE ${name} ${rover.maxSlope}`);
+      }
+      if (rover.payload) {
+        lines.push(`PAYLOAD ${name} ${rover.payload.capacity}`);
+      }
+    });
+    simulation.objectives.forEach(objective => lines.push(`OBJECTIVE ${formatObjective(objective)}`));
+    if (simulation.link) {
+      const { delay, loss, seed, fallback } = simulation.link;
+      lines.push(`LINK ${delay} loss=${loss} seed=${seed} fallback=${fallback}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private movingObstacle(obstacle: MovingObstacle, tick: number): string {
+    const state = obstacle.pattern.save();
+    switch (state.pattern) {
+      case 'patrol': {
+        // Start from the current position and keep the upcoming waypoints in order.
+        const route = [...state.waypoints.slice(state.target), ...state.waypoints.slice(0, state.target)];
+        const [first] = route;
+        if (first && (first[0] !== obstacle.x || first[1] !== obstacle.y)) {
+          route.unshift([obstacle.x, obstacle.y]);
+        }
+        return `PATROL ${route.map(([x, y]) => `${x} ${y}`).join(' ')}`;
+      }
+      case 'wander':
+        return `WANDER ${obstacle.x} ${obstacle.y} ${state.seed}`;
+      case 'blink':
+        return `BLINK ${obstacle.x} ${obstacle.y} ${state.visible} ${state.hidden} ${(tick + state.offset) % (state.visible + state.hidden)}`;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { Rover } from '../rover/Rover';
+
+export type CoverageStrategyName = 'frontier' | 'boustrophedon';
+
+export const COVERAGE_STRATEGIES: readonly CoverageStrategyName[] = ['frontier', 'boustrophedon'];
+
+export interface CoverageReport {
+  strategy: CoverageStrategyName;
+  visited: number;
+  coverable: number;
+  coverage: number;
+  pathLength: number;
+  // Cells the rover could have reached but did not visit, and cells it had no way to get to.
+  unvisited: [number, number][];
+  unreachable: [number, number][];
+}
+
+export interface CoverageStrategy {
+  name(): CoverageStrategyName;
+  // The cells to drive to, one at a time, until every cell the rover believes it can reach is done.
+  // The caller adds to `done` as the rover moves, so each target is chosen after the previous drive.
+  targets(rover: Rover, done: ReadonlySet<string>): Iterator<[number, number]>;
+}
+
+export function cellKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+// Breadth-first flood from the rover, nearest cells first. By default it spreads over the cells the
+// rover believes it can enter; it is lazy, so a caller looking for the nearest match can stop early.
+export function* floodCells(
+  rover: Rover,
+  canEnter: (x: number, y: number) => boolean = (x, y) => rover.canEnter(x, y)
+): Generator<[number, number]> {
+  const { grid } = rover;
+  const cells: [number, number][] = [[rover.x, rover.y]];
+  const seen = new Set([cellKey(rover.x, rover.y)]);
+  for (let i = 0; i < cells.length; i++) {
+    const [x, y] = cells[i]!;
+    yield [x, y];
+    for (const heading of grid.headings.headings()) {
+      const next = grid.resolve(...heading.move(x, y));
+      if (next && !seen.has(cellKey(...next)) && canEnter(...next) && rover.canClimb(x, y, ...next)) {
+        seen.add(cellKey(...next));
+        cells.push(next);
+      }
+    }
+  }
+}
+
+export function reachableCells(rover: Rover): [number, number][] {
+  return [...floodCells(rover)];
+}
+
+// Always heads for the nearest cell not yet done. The search stops at that cell, so it usually only
+// looks at the rover's surroundings rather than the whole map.
+export class FrontierCoverage implements CoverageStrategy {
+  name(): CoverageStrategyName {
+    return 'frontier';
+  }
+
+  *targets(rover: Rover, done: ReadonlySet<string>): Iterator<[number, number]> {
+    for (;;) {
+      let target: [number, number] | null = null;
+      for (const cell of floodCells(rover)) {
+        if (!done.has(cellKey(...cell))) {
+          target = cell;
+          break;
+        }
+      }
+      if (!target) {
+        return;
+      }
+      yield target;
+    }
+  }
+}
+
+// Lawnmower sweep: rows from the bottom up, alternating left-to-right and right-to-left. What the rover
+// can reach is worked out once; a cell that turns out to be cut off later simply fails its goto.
+export class BoustrophedonCoverage implements CoverageStrategy {
+  name(): CoverageStrategyName {
+    return 'boustrophedon';
+  }
+
+  *targets(rover: Rover, done: ReadonlySet<string>): Iterator<[number, number]> {
+    const { width, height } = rover.grid;
+    const reachable = new Set(reachableCells(rover).map(cell => cellKey(...cell)));
+    for (let y = 0; y < height; y++) {
+      for (let i = 0; i < width; i++) {
+        const x = y % 2 === 0 ? i : width - 1 - i;
+        const key = cellKey(x, y);
+        if (reachable.has(key) && !done.has(key)) {
+          yield [x, y];
+        }
+      }
+    }
+  }
+}
+
+export function coverageStrategyFromName(name: string): CoverageStrategy | undefined {
+  switch (name.toLowerCase()) {
+    case 'frontier': return new FrontierCoverage();
+    case 'boustrophedon': return new BoustrophedonCoverage();
+    default: return undefined;
+  }
+}
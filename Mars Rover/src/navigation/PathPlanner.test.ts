@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { WrapAroundPolicy } from '../grid/BoundaryPolicy';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { PathPlanner } from './PathPlanner';
+import { UnreachableTargetError } from './UnreachableTargetError';
+
+const [NORTH, EAST] = CARDINAL_DIRECTIONS;
+
+const run = (source: string) => {
+  const runner = new MissionRunner();
+  const simulation = runner.prepare(new MissionParser().parse(source));
+  return { simulation, results: runner.complete(simulation) };
+};
+
+test('plans the cheapest sequence of moves and turns', () => {
+  const planner = new PathPlanner(new Grid(5, 5));
+  assert.deepEqual(planner.plan({ x: 0, y: 0, direction: NORTH!, traversalCost: 0 }, 0, 3), ['M', 'M', 'M']);
+  assert.deepEqual(planner.plan({ x: 0, y: 0, direction: NORTH!, traversalCost: 0 }, 2, 2).filter(m => m !== 'M'), ['R']);
+  assert.deepEqual(planner.plan({ x: 1, y: 1, direction: EAST!, traversalCost: 0 }, 1, 1), []);
+});
+
+test('goes around obstacles', () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Obstacle(0, 1));
+  const plan = new PathPlanner(grid).plan({ x: 0, y: 0, direction: NORTH!, traversalCost: 0 }, 0, 2);
+  assert.equal(plan.filter(m => m === 'M').length, 4);
+});
+
+test('wraps around the edge when the grid does', () => {
+  const plan = new PathPlanner(new Grid(5, 5, new WrapAroundPolicy())).plan({ x: 0, y: 0, direction: NORTH!, traversalCost: 0 }, 0, 4);
+  assert.deepEqual(plan, ['L', 'L', 'M']);
+});
+
+test('rejects targets that are blocked or outside the grid', () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Obstacle(3, 3));
+  const planner = new PathPlanner(grid);
+  const start = { x: 0, y: 0, direction: NORTH!, traversalCost: 0 };
+  assert.throws(() => planner.plan(start, 3, 3), UnreachableTargetError);
+  assert.throws(() => planner.plan(start, 9, 9), /outside the grid/);
+});
+
+test('detours around terrain that costs more than the way round', () => {
+  const sand = [1, 2, 3, 4, 5, 6, 7].map(x => `TERRAIN sand ${x} 1`).join('\n');
+  const { simulation, results } = run(`GRID 9 3\n${sand}\nROVER a 0 1 E G(8,1)`);
+  assert.deepEqual([results[0]!.x, results[0]!.y], [8, 1]);
+  assert.ok(!simulation.fleet.rover('a').trail().some(([x, y]) => y === 1 && x >= 1 && x <= 7));
+});
+
+test('plans for the extra cell an ice slide carries the rover', () => {
+  const { results } = run('GRID 6 3\nTERRAIN ice 1 0\nROVER a 0 0 E G(1,0)');
+  assert.deepEqual([results[0]!.x, results[0]!.y], [1, 0]);
+  assert.equal(results[0]!.aborted, undefined);
+});
+
+test('drives a rover around obstacles to the target', () => {
+  const { simulation, results } = run('GRID 5 5\nOBSTACLE 0 1\nROVER a 0 0 N G(0,2)');
+  assert.deepEqual([results[0]!.x, results[0]!.y], [0, 2]);
+  assert.ok(!simulation.fleet.rover('a').trail().some(([x, y]) => x === 0 && y === 1));
+});
+
+test('records an unreachable target as an abort and keeps the other rovers going', () => {
+  const { results } = run('GRID 5 5\nOBSTACLE 3 4\nOBSTACLE 4 3\nROVER a 0 0 N G(4,4) M\nROVER b 2 0 N MM');
+  const [a, b] = results;
+  assert.match(a!.aborted!, /Target \(4, 4\) is unreachable/);
+  assert.deepEqual([a!.x, a!.y], [0, 0]);
+  assert.deepEqual([b!.x, b!.y], [2, 2]);
+  assert.equal(b!.aborted, undefined);
+});
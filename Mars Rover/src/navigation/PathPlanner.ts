@@ -0,0 +1,140 @@
+import { Grid } from '../grid/Grid';
+import { Direction } from '../rover/Direction';
+import { RoverState } from '../rover/Rover';
+import { PriorityQueue } from './PriorityQueue';
+import { UnreachableTargetError } from './UnreachableTargetError';
+
+export type Maneuver = 'M' | 'L' | 'R';
+
+export interface ManeuverCosts {
+  move: number;
+  turn: number;
+}
+
+// Where the rover should be after each maneuver, so a route can be checked as it is driven.
+export interface RouteStep {
+  maneuver: Maneuver;
+  x: number;
+  y: number;
+  heading: string;
+}
+
+// No cell costs less than half a move: a downhill slope costs 0.5, and ice costs 1 but slides the
+// rover one cell further. Scaling the estimate by this keeps it from overstating the remaining cost.
+const CHEAPEST_CELL = 0.5;
+
+interface Node {
+  x: number;
+  y: number;
+  direction: Direction;
+  cost: number;
+  parent: Node | null;
+  maneuver: Maneuver | null;
+}
+
+export class PathPlanner {
+  constructor(
+    private readonly grid: Grid,
+    private readonly costs: ManeuverCosts = { move: 1, turn: 1 },
+    private readonly canEnter: (x: number, y: number) => boolean = (x, y) => !grid.isBlocked(x, y),
+    private readonly canClimb: (fromX: number, fromY: number, x: number, y: number) => boolean = () => true
+  ) {}
+
+  plan(start: RoverState, targetX: number, targetY: number): Maneuver[] {
+    return this.route(start, targetX, targetY).map(step => step.maneuver);
+  }
+
+  route(start: RoverState, targetX: number, targetY: number): RouteStep[] {
+    if (!this.grid.withinBounds(targetX, targetY)) {
+      throw new UnreachableTargetError(targetX, targetY, 'it is outside the grid');
+    }
+    if ((start.x !== targetX || start.y !== targetY) && !this.canEnter(targetX, targetY)) {
+      throw new UnreachableTargetError(targetX, targetY, 'the cell is blocked');
+    }
+
+    const open = new PriorityQueue<Node>();
+    const best = new Map<string, number>();
+    const root: Node = { ...start, cost: 0, parent: null, maneuver: null };
+    open.push(root, this.estimate(root, targetX, targetY));
+    best.set(this.key(root), 0);
+
+    let node: Node | undefined;
+    while ((node = open.pop())) {
+      if (node.x === targetX && node.y === targetY) {
+        return this.unwind(node);
+      }
+      if (node.cost > best.get(this.key(node))!) {
+        continue;
+      }
+      for (const next of this.expand(node)) {
+        const key = this.key(next);
+        const known = best.get(key);
+        if (known === undefined || next.cost < known) {
+          best.set(key, next.cost);
+          open.push(next, next.cost + this.estimate(next, targetX, targetY));
+        }
+      }
+    }
+
+    throw new UnreachableTargetError(targetX, targetY, 'no obstacle-free path exists');
+  }
+
+  private expand(node: Node): Node[] {
+    const turnCost = node.cost + this.costs.turn;
+    const successors: Node[] = [
+      { x: node.x, y: node.y, direction: node.direction.left(), cost: turnCost, parent: node, maneuver: 'L' },
+      { x: node.x, y: node.y, direction: node.direction.right(), cost: turnCost, parent: node, maneuver: 'R' }
+    ];
+    const target = this.grid.resolve(...node.direction.move(node.x, node.y));
+    if (target && this.canEnter(...target) && this.canClimb(node.x, node.y, ...target)) {
+      const terrain = this.grid.terrainAt(...target);
+      const [dx, dy] = node.direction.move(0, 0);
+      const [nx, ny] = this.slide(target, node.direction, terrain ? terrain.slide() : 0);
+      successors.push({
+        x: nx,
+        y: ny,
+        direction: node.direction,
+        cost: node.cost + this.costs.move * (terrain ? terrain.cost(dx, dy) : 1),
+        parent: node,
+        maneuver: 'M'
+      });
+    }
+    return successors;
+  }
+
+  // Follows the rover's slide across ice the way Rover.moveForward does.
+  private slide(from: [number, number], direction: Direction, cells: number): [number, number] {
+    let position = from;
+    for (let slide = cells; slide > 0; slide--) {
+      const next = this.grid.resolve(...direction.move(...position));
+      if (!next || !this.canEnter(...next) || !this.canClimb(...position, ...next)) {
+        break;
+      }
+      position = next;
+    }
+    return position;
+  }
+
+  private estimate(node: Node, targetX: number, targetY: number): number {
+    const policy = this.grid.boundaryPolicy;
+    let steps = Infinity;
+    for (const dx of policy.offsets(node.x, targetX, this.grid.width)) {
+      for (const dy of policy.offsets(node.y, targetY, this.grid.height)) {
+        steps = Math.min(steps, this.grid.headings.distance(dx, dy));
+      }
+    }
+    return steps * this.costs.move * CHEAPEST_CELL;
+  }
+
+  private key(node: Node): string {
+    return `${node.x},${node.y},${node.direction.name()}`;
+  }
+
+  private unwind(node: Node): RouteStep[] {
+    const steps: RouteStep[] = [];
+    for (let current: Node | null = node; current && current.maneuver; current = current.parent) {
+      steps.unshift({ maneuver: current.maneuver, x: current.x, y: current.y, heading: current.direction.name() });
+    }
+    return steps;
+  }
+}
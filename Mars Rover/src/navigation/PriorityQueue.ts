@@ -0,0 +1,53 @@
+export class PriorityQueue<T> {
+  private heap: { item: T; priority: number }[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.heap.push({ item, priority });
+    let index = this.heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent]!.priority <= this.heap[index]!.priority) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (!top || !last) {
+      return undefined;
+    }
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.heap.length && this.heap[left]!.priority < this.heap[smallest]!.priority) {
+          smallest = left;
+        }
+        if (right < this.heap.length && this.heap[right]!.priority < this.heap[smallest]!.priority) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return top.item;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.heap[a], this.heap[b]] = [this.heap[b]!, this.heap[a]!];
+  }
+}
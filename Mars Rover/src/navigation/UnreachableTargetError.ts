@@ -0,0 +1,9 @@
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+
+// A rover that cannot reach its goto target gives up on the rest of its sequence, like any other abort.
+export class UnreachableTargetError extends SequenceAbortedError {
+  constructor(public readonly x: number, public readonly y: number, reason: string) {
+    super(`Target (${x}, ${y}) is unreachable: ${reason}`);
+    this.name = 'UnreachableTargetError';
+  }
+}
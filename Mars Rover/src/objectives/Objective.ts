@@ -0,0 +1,33 @@
+export type Objective =
+  | { kind: 'collect'; count: number }
+  | { kind: 'deliver'; count: number }
+  | { kind: 'return' }
+  | { kind: 'within'; commands: number };
+
+export const OBJECTIVE_KINDS: readonly Objective['kind'][] = ['collect', 'deliver', 'return', 'within'];
+
+// The mission file form, e.g. 'deliver 5'.
+export function formatObjective(objective: Objective): string {
+  switch (objective.kind) {
+    case 'collect':
+    case 'deliver':
+      return `${objective.kind} ${objective.count}`;
+    case 'return':
+      return 'return';
+    case 'within':
+      return `within ${objective.commands}`;
+  }
+}
+
+export function describeObjective(objective: Objective): string {
+  switch (objective.kind) {
+    case 'collect':
+      return `collect ${objective.count} sample${objective.count === 1 ? '' : 's'}`;
+    case 'deliver':
+      return `deliver ${objective.count} sample${objective.count === 1 ? '' : 's'} to base`;
+    case 'return':
+      return 'every rover with a payload ends at base';
+    case 'within':
+      return `use at most ${objective.commands} maneuvers`;
+  }
+}
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { ObjectiveEvaluator } from './ObjectiveEvaluator';
+
+const evaluate = (source: string) => {
+  const runner = new MissionRunner();
+  const simulation = runner.prepare(new MissionParser().parse(source));
+  runner.complete(simulation);
+  return new ObjectiveEvaluator().evaluate(simulation);
+};
+
+const mission = (commands: string, objectives: string) =>
+  `GRID 5 5\nSAMPLE 0 2\nSAMPLE 0 2\nBASE 0 0\nROVER a 0 0 N ${commands}\nPAYLOAD a 2\n${objectives}`;
+
+test('passes when samples are collected, delivered and the rover is home', () => {
+  const report = evaluate(mission('MMCCRRMM', 'OBJECTIVE collect 2\nOBJECTIVE deliver 2\nOBJECTIVE return\nOBJECTIVE within 8'));
+  assert.equal(report.mission, 'passed');
+  assert.deepEqual([report.collected, report.delivered, report.commands], [2, 2, 8]);
+});
+
+test('fails each objective that is not met', () => {
+  const report = evaluate(mission('MMC', 'OBJECTIVE collect 2\nOBJECTIVE deliver 1\nOBJECTIVE return\nOBJECTIVE within 2'));
+  assert.equal(report.mission, 'failed');
+  assert.deepEqual(report.objectives.map(r => [r.passed, r.actual, r.target]), [[false, 1, 2], [false, 0, 1], [false, 0, 1], [false, 3, 2]]);
+});
+
+test('does not pass return when no rover carries a payload', () => {
+  const report = evaluate('GRID 5 5\nBASE 0 0\nROVER a 0 0 N\nOBJECTIVE return');
+  assert.equal(report.mission, 'failed');
+  assert.deepEqual(report.objectives.map(r => [r.passed, r.actual, r.target]), [[false, 0, 0]]);
+});
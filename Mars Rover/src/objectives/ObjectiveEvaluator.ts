@@ -0,0 +1,53 @@
+import { Simulation } from '../simulation/Simulation';
+import { Objective, describeObjective } from './Objective';
+
+export interface ObjectiveResult {
+  objective: string;
+  passed: boolean;
+  actual: number;
+  target: number;
+}
+
+export interface MissionReport {
+  mission: 'passed' | 'failed';
+  collected: number;
+  delivered: number;
+  commands: number;
+  objectives: ObjectiveResult[];
+}
+
+// Scores the current state of a simulation against its objectives; a mission passes when all of them do.
+export class ObjectiveEvaluator {
+  evaluate(simulation: Simulation, objectives: Objective[] = simulation.objectives): MissionReport {
+    const rovers = simulation.fleet.names().map(name => simulation.fleet.rover(name));
+    const payloads = rovers.flatMap(rover => (rover.payload ? [rover.payload] : []));
+    const delivered = payloads.reduce((total, payload) => total + payload.delivered.length, 0);
+    const collected = delivered + payloads.reduce((total, payload) => total + payload.carried.length, 0);
+    const commands = simulation.commandsExecuted;
+
+    const results = objectives.map((objective): ObjectiveResult => {
+      const result = (actual: number, target: number, passed: boolean) => ({ objective: describeObjective(objective), passed, actual, target });
+      switch (objective.kind) {
+        case 'collect':
+          return result(collected, objective.count, collected >= objective.count);
+        case 'deliver':
+          return result(delivered, objective.count, delivered >= objective.count);
+        case 'return': {
+          const carriers = rovers.filter(rover => rover.payload);
+          const home = carriers.filter(rover => rover.isAtBase()).length;
+          // With no payload rover there is nothing to bring home, which does not count as a success.
+          return result(home, carriers.length, carriers.length > 0 && home === carriers.length);
+        }
+        case 'within':
+          return result(commands, objective.commands, commands <= objective.commands);
+      }
+    });
+    return {
+      mission: results.every(r => r.passed) ? 'passed' : 'failed',
+      collected,
+      delivered,
+      commands,
+      objectives: results
+    };
+  }
+}
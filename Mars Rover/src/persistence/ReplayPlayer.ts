@@ -0,0 +1,48 @@
+import { Simulation } from '../simulation/Simulation';
+import { Recording, SimulationSnapshot } from './Snapshot';
+import { SnapshotFormatError } from './SnapshotFormatError';
+import { SnapshotSerializer } from './SnapshotSerializer';
+
+export class ReplayPlayer {
+  private position = 0;
+
+  constructor(private readonly recording: Recording, private readonly serializer = new SnapshotSerializer()) {
+    serializer.validate(recording);
+    if (!Array.isArray(recording.frames) || recording.frames.length === 0) {
+      throw new SnapshotFormatError('the recording has no frames');
+    }
+  }
+
+  get length(): number {
+    return this.recording.frames.length;
+  }
+
+  get index(): number {
+    return this.position;
+  }
+
+  frame(): SimulationSnapshot {
+    return this.recording.frames[this.position]!;
+  }
+
+  forward(): boolean {
+    return this.seek(this.position + 1);
+  }
+
+  backward(): boolean {
+    return this.seek(this.position - 1);
+  }
+
+  seek(index: number): boolean {
+    if (index < 0 || index >= this.length || index === this.position) {
+      return false;
+    }
+    this.position = index;
+    return true;
+  }
+
+  // The simulation as it stood at the current frame, to show it.
+  simulation(): Simulation {
+    return this.serializer.restore(this.frame(), { partial: true });
+  }
+}
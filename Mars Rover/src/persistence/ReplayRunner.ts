@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { GridRenderer } from '../render/GridRenderer';
+import { ReplayPlayer } from './ReplayPlayer';
+import { SnapshotFormatError } from './SnapshotFormatError';
+
+const HELP = 'n = next frame, p = previous frame, g <frame> = jump, q = quit';
+
+function show(player: ReplayPlayer): void {
+  const simulation = player.simulation();
+  const { fleet } = simulation;
+  const rovers = fleet.names().map(name => fleet.rover(name));
+  console.log(new GridRenderer(simulation.grid).render(rovers));
+  console.log(`Frame ${player.index + 1}/${player.length}, tick ${player.frame().tick}`);
+  fleet.names().forEach(name => console.log(`  ${name}: ${fleet.rover(name).report()}`));
+}
+
+export async function runReplay(path: string): Promise<number> {
+  let player: ReplayPlayer;
+  try {
+    player = new ReplayPlayer(JSON.parse(await fs.promises.readFile(path, 'utf8')));
+  } catch (error) {
+    const message = error instanceof SnapshotFormatError ? error.message : `Invalid recording: ${(error as Error).message}`;
+    process.stderr.write(`${path}: ${message}\n`);
+    return 1;
+  }
+
+  show(player);
+  console.log(HELP);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: 'replay> ' });
+  rl.prompt();
+  for await (const line of rl) {
+    const [action, argument] = line.trim().toLowerCase().split(/\s+/);
+    if (action === 'q') {
+      break;
+    }
+    let moved: boolean;
+    switch (action || 'n') {
+      case 'n': moved = player.forward(); break;
+      case 'p': moved = player.backward(); break;
+      case 'g': moved = player.seek(Number(argument) - 1); break;
+      default:
+        console.log(HELP);
+        rl.prompt();
+        continue;
+    }
+    if (moved) {
+      show(player);
+    } else {
+      console.log('No such frame');
+    }
+    rl.prompt();
+  }
+  rl.close();
+  return 0;
+}
@@ -0,0 +1,9 @@
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+
+// Stands in for the original abort reason of a rover whose sequence was cut short before saving.
+export class RestoredAbortError extends SequenceAbortedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestoredAbortError';
+  }
+}
@@ -0,0 +1,26 @@
+import { Simulation } from '../simulation/Simulation';
+import { Recording, SimulationSnapshot, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from './Snapshot';
+import { SnapshotSerializer } from './SnapshotSerializer';
+
+// Captures a full snapshot before the first tick and after every tick of a simulation.
+export class SimulationRecorder {
+  private frames: SimulationSnapshot[] = [];
+  private readonly listener = () => this.capture();
+
+  constructor(private readonly simulation: Simulation, private readonly serializer = new SnapshotSerializer()) {
+    this.capture();
+    simulation.clock.subscribe(this.listener);
+  }
+
+  stop(): void {
+    this.simulation.clock.unsubscribe(this.listener);
+  }
+
+  recording(): Recording {
+    return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, frames: [...this.frames] };
+  }
+
+  private capture(): void {
+    this.frames.push(this.serializer.capture(this.simulation));
+  }
+}
@@ -0,0 +1,68 @@
+import { ExecutionMode } from '../fleet/Fleet';
+import { MovementPatternState } from '../simulation/MovementPattern';
+import { QueueState, Submission } from '../simulation/Simulation';
+import { Objective } from '../objectives/Objective';
+import { LinkState } from '../comms/CommLink';
+
+export const SNAPSHOT_FORMAT = 'mars-rover-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export type ComponentSnapshot =
+  | { type: 'obstacle'; x: number; y: number }
+  | { type: 'terrain'; kind: string; x: number; y: number; uphill?: string }
+  | { type: 'sample'; x: number; y: number }
+  | { type: 'base'; x: number; y: number }
+  | { type: 'moving-obstacle'; x: number; y: number; active: boolean; pattern: MovementPatternState };
+
+export type ChargeSnapshot = { profile: 'constant'; rate: number } | { profile: 'solar'; peakRate: number; dayLength: number };
+
+export interface BatterySnapshot {
+  capacity: number;
+  level: number;
+  tick: number;
+  costs: { move: number; turn: number; blocked: number };
+  charge: ChargeSnapshot;
+}
+
+export interface PayloadSnapshot {
+  capacity: number;
+  carried: [number, number][];
+  delivered: [number, number][];
+}
+
+export interface RoverSnapshot {
+  name: string;
+  x: number;
+  y: number;
+  heading: string;
+  traversalCost: number;
+  trail: [number, number][];
+  capabilities: string[];
+  battery?: BatterySnapshot;
+  sensorRadius?: number;
+  maxSlope?: number;
+  payload?: PayloadSnapshot;
+  belief?: string[];
+  queue?: QueueState;
+  aborted?: string;
+}
+
+export interface SimulationSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  tick: number;
+  mode: ExecutionMode;
+  grid: { width: number; height: number; boundary: string; headings: string; elevation?: number[][] };
+  components: ComponentSnapshot[];
+  rovers: RoverSnapshot[];
+  history: Submission[];
+  commands?: number;
+  objectives?: Objective[];
+  link?: LinkState;
+}
+
+export interface Recording {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  frames: SimulationSnapshot[];
+}
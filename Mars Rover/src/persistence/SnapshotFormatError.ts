@@ -0,0 +1,6 @@
+export class SnapshotFormatError extends Error {
+  constructor(message: string) {
+    super(`Invalid snapshot: ${message}`);
+    this.name = 'SnapshotFormatError';
+  }
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { SnapshotSerializer } from './SnapshotSerializer';
+import { SnapshotFormatError } from './SnapshotFormatError';
+
+const MISSION = [
+  'GRID 8 8',
+  'MODE interleaved',
+  'OBSTACLE 2 2',
+  'TERRAIN sand 1 3',
+  'TERRAIN slope 4 4 N',
+  'PATROL 6 0 6 6',
+  'WANDER 3 6 9',
+  'ROVER alpha 0 0 N MMRRMMLL G(5,5)',
+  'BATTERY alpha 40',
+  'ROVER beta 7 7 S MMMLMM',
+  'SENSOR beta 2'
+].join('\n');
+
+const serializer = new SnapshotSerializer();
+const prepare = () => new MissionRunner().prepare(new MissionParser().parse(MISSION));
+
+test('a restored snapshot captures the same state', () => {
+  const simulation = prepare();
+  simulation.step();
+  simulation.step();
+  simulation.step();
+  const snapshot = serializer.capture(simulation);
+  const restored = serializer.restore(serializer.parse(JSON.stringify(snapshot)));
+  assert.deepEqual(serializer.capture(restored), snapshot);
+});
+
+test('a restored simulation finishes the way the original does', () => {
+  const original = prepare();
+  for (let tick = 0; tick < 4; tick++) {
+    original.step();
+  }
+  const restored = serializer.restore(JSON.parse(JSON.stringify(serializer.capture(original))));
+  const runner = new MissionRunner();
+  assert.deepEqual(runner.complete(restored), runner.complete(original));
+  assert.deepEqual(serializer.capture(restored), serializer.capture(original));
+});
+
+test('rejects snapshots of another format or version', () => {
+  const snapshot = serializer.capture(prepare());
+  assert.throws(() => serializer.parse('{'), SnapshotFormatError);
+  assert.throws(() => serializer.validate({ ...snapshot, format: 'other' }), /expected format/);
+  assert.throws(() => serializer.validate({ ...snapshot, version: snapshot.version + 1 }), /unsupported version/);
+});
+
+test('refuses to resume part-way through a compound command but can still show it', () => {
+  const source = 'GRID 5 5\nROVER a 0 0 N IF NOT BLOCKED THEN (MMM)';
+  const simulation = new MissionRunner().prepare(new MissionParser().parse(source));
+  simulation.step();
+  const midway = serializer.capture(simulation);
+  assert.deepEqual(midway.rovers[0]!.queue, { sequences: ['IF NOT BLOCKED THEN (MMM)'], next: 0, inProgress: true });
+  assert.throws(() => serializer.restore(midway), /rover 'a' is part-way through a command/);
+  assert.equal(serializer.restore(midway, { partial: true }).fleet.rover('a').y, 1);
+
+  assert.equal(simulation.run().a, 'Rover is at (0, 3) facing N');
+  const finished = serializer.restore(serializer.capture(simulation));
+  assert.equal(finished.run().a, 'Rover is at (0, 3) facing N');
+});
@@ -0,0 +1,264 @@
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { HeightMap } from '../grid/HeightMap';
+import { Sample } from '../grid/Sample';
+import { Base } from '../grid/Base';
+import { Slope, Terrain, terrainFromName } from '../grid/Terrain';
+import { BoundaryPolicy, boundaryPolicyFromName } from '../grid/BoundaryPolicy';
+import { HeadingSystem, headingSystemFromName } from '../rover/HeadingSystem';
+import { Battery, ChargeProfile, ConstantCharge, SolarCharge } from '../rover/Battery';
+import { Rover } from '../rover/Rover';
+import { Payload } from '../rover/Payload';
+import { Fleet } from '../fleet/Fleet';
+import { Simulation } from '../simulation/Simulation';
+import { SimulationClock } from '../simulation/SimulationClock';
+import { MovingObstacle } from '../simulation/MovingObstacle';
+import { movementPatternFromState } from '../simulation/MovementPattern';
+import { CommLink } from '../comms/CommLink';
+import {
+  BatterySnapshot,
+  ChargeSnapshot,
+  ComponentSnapshot,
+  PayloadSnapshot,
+  RoverSnapshot,
+  SimulationSnapshot,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION
+} from './Snapshot';
+import { SnapshotFormatError } from './SnapshotFormatError';
+import { RestoredAbortError } from './RestoredAbortError';
+
+export interface RestoreOptions {
+  // Accepts snapshots taken part-way through a compound command, such as recording frames. The
+  // simulation can be shown but not run on: the command would start over rather than carry on.
+  partial: boolean;
+}
+
+export class SnapshotSerializer {
+  capture(simulation: Simulation): SimulationSnapshot {
+    const { grid, fleet } = simulation;
+    const components: ComponentSnapshot[] = [];
+    grid.componentsInRegion(0, 0, grid.width - 1, grid.height - 1).forEach(component => {
+      if (component instanceof Terrain) {
+        const uphill = component instanceof Slope ? { uphill: component.uphill.name() } : {};
+        components.push({ type: 'terrain', kind: component.kind, x: component.x, y: component.y, ...uphill });
+      } else if (component instanceof Obstacle) {
+        components.push({ type: 'obstacle', x: component.x, y: component.y });
+      } else if (component instanceof Sample) {
+        components.push({ type: 'sample', x: component.x, y: component.y });
+      } else if (component instanceof Base) {
+        components.push({ type: 'base', x: component.x, y: component.y });
+      }
+    });
+    simulation.movingObstacles().forEach(obstacle => {
+      components.push({
+        type: 'moving-obstacle',
+        x: obstacle.x,
+        y: obstacle.y,
+        active: obstacle.isObstacle(),
+        pattern: obstacle.pattern.save()
+      });
+    });
+
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      tick: simulation.clock.tick,
+      mode: simulation.mode,
+      grid: {
+        width: grid.width,
+        height: grid.height,
+        boundary: grid.boundaryPolicy.name(),
+        headings: grid.headings.name(),
+        ...(grid.elevation && { elevation: grid.elevation.rows() })
+      },
+      components,
+      rovers: fleet.names().map(name => this.captureRover(simulation, name)),
+      history: simulation.journal(),
+      commands: simulation.commandsExecuted,
+      objectives: simulation.objectives.map(objective => ({ ...objective })),
+      ...(simulation.link && { link: simulation.link.save() })
+    };
+  }
+
+  restore(snapshot: SimulationSnapshot, options: RestoreOptions = { partial: false }): Simulation {
+    this.validate(snapshot);
+    const midway = snapshot.rovers.find(spec => spec.queue?.inProgress);
+    if (midway && !options.partial) {
+      throw new SnapshotFormatError(`rover '${midway.name}' is part-way through a command; only snapshots taken between commands can be resumed`);
+    }
+    const boundary = boundaryPolicyFromName(snapshot.grid.boundary);
+    const headings = headingSystemFromName(snapshot.grid.headings);
+    if (!boundary || !headings) {
+      throw new SnapshotFormatError(`unknown grid settings '${snapshot.grid.boundary}' / '${snapshot.grid.headings}'`);
+    }
+    const grid = this.restoreGrid(snapshot, boundary, headings);
+    const fleet = new Fleet(grid);
+    const simulation = new Simulation(grid, fleet, snapshot.mode, new SimulationClock(snapshot.tick));
+
+    snapshot.components.forEach(component => {
+      switch (component.type) {
+        case 'obstacle':
+          grid.add(new Obstacle(component.x, component.y));
+          break;
+        case 'terrain': {
+          const uphill = component.uphill ? headings.fromName(component.uphill) : undefined;
+          const terrain = terrainFromName(component.kind, component.x, component.y, uphill);
+          if (!terrain) {
+            throw new SnapshotFormatError(`unknown terrain '${component.kind}' at (${component.x}, ${component.y})`);
+          }
+          grid.add(terrain);
+          break;
+        }
+        case 'sample':
+          grid.add(new Sample(component.x, component.y));
+          break;
+        case 'base':
+          grid.add(new Base(component.x, component.y));
+          break;
+        case 'moving-obstacle':
+          simulation.addObstacle(
+            new MovingObstacle(component.x, component.y, movementPatternFromState(component.pattern), component.active)
+          );
+          break;
+      }
+    });
+
+    snapshot.rovers.forEach(spec => this.restoreRover(fleet, spec));
+    const queues = Object.fromEntries(snapshot.rovers.filter(spec => spec.queue).map(spec => [spec.name, spec.queue!]));
+    simulation.resume(snapshot.history, queues, snapshot.commands ?? 0);
+    simulation.objectives = (snapshot.objectives ?? []).map(objective => ({ ...objective }));
+    snapshot.rovers.forEach(spec => {
+      if (spec.aborted !== undefined) {
+        fleet.abort(spec.name, new RestoredAbortError(spec.aborted));
+      }
+    });
+    if (snapshot.link) {
+      try {
+        simulation.link = new CommLink(simulation, snapshot.link);
+      } catch (error) {
+        throw new SnapshotFormatError((error as Error).message);
+      }
+    }
+    return simulation;
+  }
+
+  stringify(snapshot: SimulationSnapshot): string {
+    return JSON.stringify(snapshot, null, 2) + '\n';
+  }
+
+  parse(text: string): SimulationSnapshot {
+    let snapshot: SimulationSnapshot;
+    try {
+      snapshot = JSON.parse(text);
+    } catch (error) {
+      throw new SnapshotFormatError((error as Error).message);
+    }
+    this.validate(snapshot);
+    return snapshot;
+  }
+
+  validate(snapshot: { format?: unknown; version?: unknown }): void {
+    if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+      throw new SnapshotFormatError(`expected format '${SNAPSHOT_FORMAT}'`);
+    }
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotFormatError(`unsupported version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+  }
+
+  private restoreGrid(snapshot: SimulationSnapshot, boundary: BoundaryPolicy, headings: HeadingSystem): Grid {
+    const { width, height, elevation } = snapshot.grid;
+    try {
+      return new Grid(width, height, boundary, headings, elevation ? new HeightMap(elevation) : null);
+    } catch (error) {
+      throw new SnapshotFormatError((error as Error).message);
+    }
+  }
+
+  private captureRover(simulation: Simulation, name: string): RoverSnapshot {
+    const rover = simulation.fleet.rover(name);
+    const snapshot: RoverSnapshot = {
+      name,
+      x: rover.x,
+      y: rover.y,
+      heading: rover.direction.name(),
+      traversalCost: rover.traversalCost,
+      trail: rover.trail(),
+      capabilities: [...rover.capabilities]
+    };
+    if (rover.battery) {
+      snapshot.battery = this.captureBattery(rover.battery);
+    }
+    if (rover.belief) {
+      snapshot.sensorRadius = rover.belief.sensorRadius;
+      snapshot.belief = rover.belief.export().rows;
+    }
+    if (rover.maxSlope !== null) {
+      snapshot.maxSlope = rover.maxSlope;
+    }
+    if (rover.payload) {
+      const position = (sample: Sample): [number, number] => [sample.x, sample.y];
+      const { capacity, carried, delivered } = rover.payload;
+      snapshot.payload = { capacity, carried: carried.map(position), delivered: delivered.map(position) };
+    }
+    const queue = simulation.queueOf(name);
+    if (queue) {
+      snapshot.queue = queue;
+    }
+    const abort = simulation.fleet.abortOf(name);
+    if (abort) {
+      snapshot.aborted = abort.message;
+    }
+    return snapshot;
+  }
+
+  private restoreRover(fleet: Fleet, spec: RoverSnapshot): void {
+    const heading = fleet.grid.headings.fromName(spec.heading);
+    if (!heading) {
+      throw new SnapshotFormatError(`rover '${spec.name}' has unknown heading '${spec.heading}'`);
+    }
+    const rover: Rover = fleet.deploy(spec.name, spec.x, spec.y, heading, {
+      capabilities: spec.capabilities,
+      ...(spec.battery && { battery: this.restoreBattery(spec.battery) }),
+      ...(spec.sensorRadius !== undefined && { sensorRadius: spec.sensorRadius }),
+      ...(spec.maxSlope !== undefined && { maxSlope: spec.maxSlope }),
+      ...(spec.payload && { payload: this.restorePayload(spec.payload) })
+    });
+    rover.restore({ x: spec.x, y: spec.y, direction: heading, traversalCost: spec.traversalCost });
+    rover.restoreTrail(spec.trail);
+    if (rover.belief && spec.belief) {
+      rover.belief.restore(spec.belief);
+    }
+  }
+
+  private restorePayload(spec: PayloadSnapshot): Payload {
+    const payload = new Payload(spec.capacity);
+    const samples = (positions: [number, number][]) => positions.map(([x, y]) => new Sample(x, y));
+    payload.resume(samples(spec.carried), samples(spec.delivered));
+    return payload;
+  }
+
+  private captureBattery(battery: Battery): BatterySnapshot {
+    const profile = battery.profile;
+    let charge: ChargeSnapshot;
+    if (profile instanceof SolarCharge) {
+      charge = { profile: 'solar', peakRate: profile.peakRate, dayLength: profile.dayLength };
+    } else if (profile instanceof ConstantCharge) {
+      charge = { profile: 'constant', rate: profile.rate };
+    } else {
+      throw new Error(`Cannot save charge profile ${profile.constructor.name}`);
+    }
+    return { capacity: battery.capacity, level: battery.level, tick: battery.tick, costs: { ...battery.costs }, charge };
+  }
+
+  private restoreBattery(spec: BatterySnapshot): Battery {
+    const profile: ChargeProfile =
+      spec.charge.profile === 'solar'
+        ? new SolarCharge(spec.charge.peakRate, spec.charge.dayLength)
+        : new ConstantCharge(spec.charge.rate);
+    const battery = new Battery(spec.capacity, spec.costs, profile);
+    battery.resume(spec.level, spec.tick);
+    return battery;
+  }
+}
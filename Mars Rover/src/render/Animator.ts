@@ -0,0 +1,16 @@
+import { GridRenderer } from './GridRenderer';
+import { Rover } from '../rover/Rover';
+
+export class Animator {
+  constructor(
+    private readonly renderer: GridRenderer,
+    private readonly rovers: Rover[],
+    private readonly delayMs: number = 200,
+    private readonly output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  async show(caption: string): Promise<void> {
+    this.output.write(this.renderer.frame(this.rovers, caption));
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+  }
+}
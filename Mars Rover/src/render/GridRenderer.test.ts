@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { Sand } from '../grid/Terrain';
+import { Sample } from '../grid/Sample';
+import { BlockAndContinuePolicy } from '../grid/BoundaryPolicy';
+import { Fleet } from '../fleet/Fleet';
+import { HexHeadings } from '../rover/HeadingSystem';
+import { CARDINAL_DIRECTIONS } from '../rover/Direction';
+import { GridRenderer } from './GridRenderer';
+
+test('draws obstacles, terrain, samples, trails and rovers with the north row on top', () => {
+  const grid = new Grid(4, 3);
+  grid.add(new Obstacle(3, 2));
+  grid.add(new Sand(2, 0));
+  grid.add(new Sample(3, 0));
+  const fleet = new Fleet(grid);
+  fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[1]!);
+  fleet.run({ a: 'MLM' });
+  assert.equal(new GridRenderer(grid).snapshot([fleet.rover('a')]), [
+    '  2 . . . #',
+    '  1 . ↑ . .',
+    '  0 * * : $',
+    '    0 1 2 3',
+    ''
+  ].join('\n'));
+});
+
+test('colours cells unless asked for plain text', () => {
+  const grid = new Grid(2, 1);
+  const renderer = new GridRenderer(grid);
+  assert.match(renderer.render([]), /\x1b\[2m\.\x1b\[0m/);
+  assert.equal(renderer.render([], { color: false }), '  0 . .\n    0 1');
+  assert.ok(renderer.frame([], 'tick 1').startsWith('\x1b[2J\x1b[H'));
+  assert.ok(renderer.frame([], 'tick 1').endsWith('\ntick 1\n'));
+});
+
+test('shifts hex rows so neighbouring cells line up', () => {
+  const grid = new Grid(2, 2, new BlockAndContinuePolicy(), new HexHeadings());
+  assert.equal(new GridRenderer(grid).render([], { color: false }), '  1  . .\n  0 . .\n    0 1');
+});
@@ -0,0 +1,84 @@
+import { Grid } from '../grid/Grid';
+import { Rover } from '../rover/Rover';
+import { Terrain } from '../grid/Terrain';
+import { Sample } from '../grid/Sample';
+import { Base } from '../grid/Base';
+
+const ARROWS: Record<string, string> = {
+  N: '↑', NE: '↗', E: '→', SE: '↘', S: '↓', SW: '↙', W: '←', NW: '↖'
+};
+
+const TERRAIN: Record<string, string> = {
+  sand: ':', ice: '~', crater: 'O', slope: '%'
+};
+
+const ANSI = {
+  reset: '\x1b[0m',
+  obstacle: '\x1b[31m',
+  terrain: '\x1b[36m',
+  sample: '\x1b[35m',
+  trail: '\x1b[33m',
+  rover: '\x1b[1;32m',
+  empty: '\x1b[2m',
+  clear: '\x1b[2J\x1b[H'
+};
+
+export interface RenderOptions {
+  color: boolean;
+}
+
+export class GridRenderer {
+  constructor(private readonly grid: Grid) {}
+
+  render(rovers: Rover[], options: RenderOptions = { color: true }): string {
+    const paint = (text: string, style: string) => (options.color ? `${style}${text}${ANSI.reset}` : text);
+    const cells: string[][] = [];
+    for (let y = 0; y < this.grid.height; y++) {
+      cells.push(new Array(this.grid.width).fill(paint('.', ANSI.empty)));
+    }
+    const put = (x: number, y: number, symbol: string) => {
+      const row = cells[y];
+      if (row && x >= 0 && x < row.length) {
+        row[x] = symbol;
+      }
+    };
+
+    const components = this.grid.componentsInRegion(0, 0, this.grid.width - 1, this.grid.height - 1);
+    components.forEach(c => {
+      if (c instanceof Terrain) {
+        put(c.x, c.y, paint(TERRAIN[c.kind] ?? '?', ANSI.terrain));
+      }
+    });
+    components.forEach(c => {
+      if (c.isObstacle() && !(c instanceof Rover)) {
+        put(c.x, c.y, paint('#', ANSI.obstacle));
+      }
+    });
+    rovers.forEach(rover => rover.trail().forEach(([x, y]) => put(x, y, paint('*', ANSI.trail))));
+    components.forEach(c => {
+      if (c instanceof Base) {
+        put(c.x, c.y, paint('B', ANSI.sample));
+      } else if (c instanceof Sample) {
+        put(c.x, c.y, paint('$', ANSI.sample));
+      }
+    });
+    rovers.forEach(rover => put(rover.x, rover.y, paint(ARROWS[rover.direction.name()] ?? '@', ANSI.rover)));
+
+    const hex = this.grid.headings.name() === 'hex';
+    const lines: string[] = [];
+    for (let y = this.grid.height - 1; y >= 0; y--) {
+      const indent = hex ? ' '.repeat(y) : '';
+      lines.push(`${String(y).padStart(3)} ${indent}${cells[y]!.join(' ')}`);
+    }
+    lines.push(`    ${Array.from({ length: this.grid.width }, (_, x) => String(x % 10)).join(' ')}`);
+    return lines.join('\n');
+  }
+
+  snapshot(rovers: Rover[]): string {
+    return this.render(rovers, { color: false }) + '\n';
+  }
+
+  frame(rovers: Rover[], caption: string): string {
+    return `${ANSI.clear}${this.render(rovers)}\n${caption}\n`;
+  }
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Runs the REPL as the CLI does, one input per line, with a throwaway home directory for its history.
+// Returns what it printed after each input.
+const session = (home: string, inputs: string[]): string[] => {
+  const output = execFileSync(process.execPath, ['--require', 'ts-node/register/transpile-only', path.join(__dirname, '../index.ts')], {
+    input: inputs.join('\n') + '\n',
+    env: { ...process.env, HOME: home },
+    encoding: 'utf8'
+  });
+  return output.split('rover> ').slice(1).map(text => text.trimEnd());
+};
+
+const withHome = (body: (home: string) => void) => {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'rover-repl-'));
+  try {
+    body(home);
+  } finally {
+    fs.rmSync(home, { recursive: true, force: true });
+  }
+};
+
+test('keeps rovers, history and macros between inputs', () => {
+  withHome(home => {
+    const replies = session(home, ['MMR', 'U', 'DEF hop = MM', 'hop', 'deploy beta 5 5 E', 'M', 'status', 'quit']);
+    assert.deepEqual(replies.slice(0, 4), [
+      'Rover is at (0, 2) facing E',
+      'Rover is at (0, 2) facing N',
+      'Rover is at (0, 2) facing N',
+      'Rover is at (0, 4) facing N'
+    ]);
+    assert.equal(replies[5], 'Rover is at (6, 5) facing E');
+    assert.match(replies[6]!, /  alpha: Rover is at \(0, 4\) facing N\n\* beta: Rover is at \(6, 5\) facing E/);
+    assert.equal(replies[7], 'Final rover state: Rover is at (6, 5) facing E');
+  });
+});
+
+test('stops a sequence at an abort and reports syntax errors in place', () => {
+  withHome(home => {
+    const replies = session(home, ['G(2,2) M', 'M Q', 'exit']);
+    assert.equal(replies[0], 'Target (2, 2) is unreachable: the cell is blocked; skipping the rest of the sequence\nRover is at (0, 0) facing N');
+    assert.equal(replies[1], "M Q\n  ^ Invalid command 'Q'");
+  });
+});
+
+test('remembers inputs from earlier sessions', () => {
+  withHome(home => {
+    session(home, ['MM', 'exit']);
+    const replies = session(home, ['history', 'exit']);
+    assert.equal(replies[0], '   1  MM\n   2  exit\n   3  history');
+  });
+});
@@ -0,0 +1,539 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { HeightMap } from '../grid/HeightMap';
+import { BoundaryPolicy } from '../grid/BoundaryPolicy';
+import { HeadingSystem } from '../rover/HeadingSystem';
+import { Battery } from '../rover/Battery';
+import { Rover } from '../rover/Rover';
+import { describeRoverEvent, logRoverEvent } from '../rover/ConsoleEventLogger';
+import { SENSOR_NAMES } from '../rover/Sensor';
+import { Fleet } from '../fleet/Fleet';
+import { Simulation } from '../simulation/Simulation';
+import { CommLink, LinkOptions, Telemetry } from '../comms/CommLink';
+import { Command, runStepwise } from '../commands/Command';
+import { HistoryCommand, UndoCommand } from '../commands/HistoryCommand';
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+import { COVERAGE_STRATEGIES } from '../navigation/CoverageStrategy';
+import { CommandParser } from '../language/CommandParser';
+import { CommandCompiler } from '../language/CommandCompiler';
+import { CommandSyntaxError } from '../language/CommandSyntaxError';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { MissionWriter } from '../mission/MissionWriter';
+import { AsciiMapParser, ASCII_MAP_EXTENSION } from '../mission/AsciiMapParser';
+import { AsciiMapWriter } from '../mission/AsciiMapWriter';
+import { SnapshotSerializer } from '../persistence/SnapshotSerializer';
+import { GridRenderer } from '../render/GridRenderer';
+import { Animator } from '../render/Animator';
+import { ObjectiveEvaluator } from '../objectives/ObjectiveEvaluator';
+import { SequenceValidator, ValidationReport } from '../validation/SequenceValidator';
+
+const PROMPT = 'rover> ';
+const MAX_HISTORY = 500;
+const REPL_COMMANDS = ['run', 'check', 'strict', 'status', 'draw', 'obstacle', 'deploy', 'rover', 'rovers', 'load', 'save', 'report', 'wait', 'history', 'help', 'exit', 'quit'];
+const LANGUAGE_WORDS = ['DEF', 'IF', 'THEN', 'ELSE', 'WHILE', 'NOT', 'EXPLORE', ...SENSOR_NAMES, ...COVERAGE_STRATEGIES.map(s => s.toUpperCase())];
+
+const HELP = `Commands:
+  <sequence> | run <sequence>     run a command sequence on the active rover (M, L, R, G(x,y), U, Y, 3M, (MR)x4, DEF, IF, WHILE, EXPLORE);
+                                  with a comms link it is uplinked instead and runs when it arrives
+  check <sequence>                dry run: report each command's outcome without moving the rover
+  strict on|off                   refuse to run sequences in which any command would fail
+  status                          show every rover, the active one marked with *
+  draw                            draw the grid
+  obstacle add|remove <x> <y>     add or remove an obstacle
+  deploy <name> <x> <y> [heading] deploy another rover
+  rover <name>                    switch the active rover
+  rovers                          list rover names
+  load <file> | save <file>       load or save a mission (.mission), ASCII map (.map) or snapshot (.json)
+  report                          check the mission objectives (pass/fail)
+  wait [ticks]                    let time pass (default: until every uplink has arrived and run)
+  history                         show previous inputs
+  help | exit`;
+
+export interface ReplOptions {
+  boundaryPolicy: BoundaryPolicy;
+  headings: HeadingSystem;
+  animateMs?: number;
+  snapshotPath?: string;
+  battery?: Battery;
+  sensorRadius?: number;
+  beliefPath?: string;
+  historyPath?: string;
+  elevation?: HeightMap;
+  maxSlope?: number;
+  link?: LinkOptions;
+}
+
+export class RoverRepl {
+  private simulation: Simulation;
+  private active = 'alpha';
+  private parsers = new Map<string, CommandParser>();
+  private inputs: string[] = [];
+  private strict = false;
+  private readonly historyPath: string;
+  private readonly telemetry = (telemetry: Telemetry) => this.printTelemetry(telemetry);
+
+  constructor(private readonly options: ReplOptions) {
+    this.historyPath = options.historyPath ?? path.join(os.homedir(), '.mars_rover_history');
+    const { elevation } = options;
+    const grid = new Grid(elevation?.width ?? 10, elevation?.height ?? 10, options.boundaryPolicy, options.headings, elevation ?? null);
+    const obstacles: [number, number][] = [[2, 2], [3, 5]];
+    obstacles.filter(([x, y]) => grid.withinBounds(x, y)).forEach(([x, y]) => grid.add(new Obstacle(x, y)));
+    this.simulation = new Simulation(grid, new Fleet(grid));
+    this.simulation.fleet.deploy(this.active, 0, 0, options.headings.headings()[0]!, {
+      ...(options.battery && { battery: options.battery }),
+      ...(options.sensorRadius !== undefined && { sensorRadius: options.sensorRadius }),
+      ...(options.maxSlope !== undefined && { maxSlope: options.maxSlope })
+    });
+    if (options.link) {
+      this.simulation.link = new CommLink(this.simulation, options.link);
+    }
+    this.listen(this.simulation);
+  }
+
+  async start(): Promise<void> {
+    const previous = this.readHistory();
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      prompt: PROMPT,
+      history: [...previous].reverse(),
+      historySize: MAX_HISTORY,
+      completer: (line: string) => this.complete(line)
+    });
+    this.inputs = previous;
+
+    console.log("Type a command sequence to drive the rover, or 'help' for REPL commands.");
+    rl.prompt();
+    for await (const line of rl) {
+      const input = line.trim();
+      if (input !== '') {
+        this.remember(input);
+        if (input === 'exit' || input === 'quit') {
+          break;
+        }
+        try {
+          await this.handle(input);
+        } catch (error) {
+          if (!(error instanceof Error)) {
+            throw error;
+          }
+          console.log(error.message);
+        }
+      }
+      rl.prompt();
+    }
+    rl.close();
+    this.finish();
+  }
+
+  private async handle(input: string): Promise<void> {
+    const [keyword = '', ...args] = input.split(/\s+/);
+    switch (keyword.toLowerCase()) {
+      case 'run':
+        return this.run(input.slice(keyword.length).trim());
+      case 'check':
+        this.printReport(this.check(input.slice(keyword.length).trim()));
+        return;
+      case 'strict':
+        return this.setStrict(args);
+      case 'status':
+        return this.status();
+      case 'draw':
+        console.log(new GridRenderer(this.simulation.grid).render(this.rovers(), { color: process.stdout.isTTY === true }));
+        return;
+      case 'obstacle':
+        return this.obstacle(args);
+      case 'deploy':
+        return this.deploy(args);
+      case 'rover':
+        return this.switchRover(args);
+      case 'rovers':
+        console.log(this.simulation.fleet.names().join(' '));
+        return;
+      case 'load':
+        return this.load(this.argument(args, 'load <file>'));
+      case 'save':
+        return this.save(this.argument(args, 'save <file>'));
+      case 'report':
+        return this.missionReport();
+      case 'wait':
+        return this.wait(args);
+      case 'history':
+        this.inputs.forEach((entry, index) => console.log(`${String(index + 1).padStart(4)}  ${entry}`));
+        return;
+      case 'help':
+        console.log(HELP);
+        return;
+      default:
+        return this.run(input);
+    }
+  }
+
+  private async run(sequence: string): Promise<void> {
+    const name = this.active;
+    const { fleet } = this.simulation;
+    const rover = fleet.rover(name);
+    const history = fleet.history(name);
+
+    if (this.strict) {
+      const report = this.check(sequence);
+      if (!report.valid) {
+        this.printReport(report);
+        console.log('Strict mode: the sequence was not run');
+        return;
+      }
+      this.printLinkCaveat();
+    }
+
+    if (this.simulation.link) {
+      return this.uplink(this.simulation.link, sequence);
+    }
+
+    let commands: Command[];
+    try {
+      commands = new CommandCompiler(rover, history).compile(this.parser(name).parse(sequence));
+    } catch (error) {
+      if (!(error instanceof CommandSyntaxError)) {
+        throw error;
+      }
+      this.printSyntaxError(sequence, error);
+      return;
+    }
+
+    const animator = this.options.animateMs !== undefined
+      ? new Animator(new GridRenderer(this.simulation.grid), this.rovers(), this.options.animateMs)
+      : null;
+    for (const [index, command] of commands.entries()) {
+      rover.beginCommand(index);
+      try {
+        if (command instanceof HistoryCommand) {
+          this.simulation.drive(name, runStepwise(command));
+          if (!command.succeeded()) {
+            console.log(command instanceof UndoCommand ? 'Nothing to undo' : 'Nothing to redo');
+          }
+        } else {
+          this.simulation.drive(name, history.run(command));
+        }
+      } catch (error) {
+        if (error instanceof SequenceAbortedError) {
+          console.log(`${error.message}; skipping the rest of the sequence`);
+          break;
+        } else {
+          throw error;
+        }
+      }
+      if (animator) {
+        await animator.show(`Step ${index + 1}/${commands.length}: ${rover.report()}`);
+      }
+    }
+
+    rover.completeSequence();
+    console.log(rover.report());
+  }
+
+  // Over a comms link a sequence is only transmitted; it runs once it arrives, while 'wait' lets time pass.
+  private uplink(link: CommLink, sequence: string): void {
+    try {
+      const packet = link.send(this.active, sequence);
+      console.log(`📡 Uplink ${packet.id} to ${packet.rover} sent at tick ${packet.sentAt}, arriving at tick ${packet.arrivesAt}`);
+    } catch (error) {
+      if (!(error instanceof CommandSyntaxError)) {
+        throw error;
+      }
+      this.printSyntaxError(sequence, error);
+    }
+  }
+
+  private wait(args: string[]): void {
+    if (args[0] === undefined) {
+      this.simulation.run();
+    } else {
+      const ticks = this.coordinate(args[0], 'wait [ticks]');
+      for (let tick = 0; tick < ticks; tick++) {
+        this.simulation.step();
+      }
+    }
+    this.status();
+  }
+
+  private printTelemetry({ rover, sentAt, arrivesAt, event }: Telemetry): void {
+    const text = event.type === 'sequence-completed'
+      ? `Sequence complete at (${event.x}, ${event.y}) facing ${event.heading}`
+      : describeRoverEvent(event);
+    if (text !== null) {
+      console.log(`📡 [tick ${arrivesAt}] ${rover}, as of tick ${sentAt}: ${text}`);
+    }
+  }
+
+  private printSyntaxError(sequence: string, error: CommandSyntaxError): void {
+    console.log(sequence);
+    console.log(`${' '.repeat(error.column - 1)}^ ${error.reason}`);
+  }
+
+  private check(sequence: string): ValidationReport {
+    return new SequenceValidator().validate(this.simulation, this.active, sequence, this.parser(this.active));
+  }
+
+  private printReport(report: ValidationReport): void {
+    report.steps.forEach(step => {
+      const position = `(${step.x}, ${step.y}) ${step.heading}`;
+      const line = `${String(step.index).padStart(4)}  ${step.command.padEnd(12)} ${step.outcome.padEnd(8)} ${position}`;
+      console.log(step.reason ? `${line}  ${step.reason}` : line);
+    });
+    const { x, y, heading } = report.final;
+    const verdict = report.valid ? 'All commands would succeed' : `First failure at command ${report.firstFailure}`;
+    console.log(`${verdict}; predicted final position (${x}, ${y}) facing ${heading}`);
+    this.printLinkCaveat();
+  }
+
+  // Dry runs see the simulation as it is now, not as it will be when an uplinked sequence arrives.
+  private printLinkCaveat(): void {
+    const { link, clock } = this.simulation;
+    if (link && link.delay > 0) {
+      console.log(`Checked against the state at tick ${clock.tick}; over the link the sequence would run at tick ${clock.tick + link.delay}, when the state may differ`);
+    }
+  }
+
+  private setStrict(args: string[]): void {
+    const setting = args[0]?.toLowerCase();
+    if (setting !== 'on' && setting !== 'off') {
+      throw new Error('Usage: strict on|off');
+    }
+    this.strict = setting === 'on';
+    console.log(`Strict mode ${setting}`);
+  }
+
+  private status(): void {
+    const { fleet, clock } = this.simulation;
+    fleet.names().forEach(name => {
+      console.log(`${name === this.active ? '*' : ' '} ${name}: ${fleet.rover(name).report()}`);
+    });
+    console.log(`  tick ${clock.tick}`);
+    const { link } = this.simulation;
+    if (link) {
+      const uplinks = link.uplinks();
+      const inFlight = uplinks.filter(packet => packet.status === 'in-flight').length;
+      const scheduled = uplinks.filter(packet => packet.status === 'scheduled').length;
+      const later = scheduled > 0 ? `, ${scheduled} scheduled` : '';
+      console.log(`  link: ${link.delay}-tick delay, ${inFlight} uplink${inFlight === 1 ? '' : 's'} in flight${later}, fallback ${link.fallback}`);
+    }
+  }
+
+  private missionReport(): void {
+    if (this.simulation.objectives.length === 0) {
+      console.log('No mission objectives (load a mission with OBJECTIVE lines)');
+      return;
+    }
+    const report = new ObjectiveEvaluator().evaluate(this.simulation);
+    console.log(`Mission ${report.mission}: ${report.collected} collected, ${report.delivered} delivered, ${report.commands} commands`);
+    report.objectives.forEach(result => {
+      console.log(`  ${result.passed ? '✔' : '✘'} ${result.objective} (${result.actual}/${result.target})`);
+    });
+  }
+
+  private obstacle(args: string[]): void {
+    const usage = 'obstacle add|remove <x> <y>';
+    const [action, x, y] = [args[0]?.toLowerCase(), this.coordinate(args[1], usage), this.coordinate(args[2], usage)];
+    const { grid } = this.simulation;
+    if (!grid.withinBounds(x, y)) {
+      throw new Error(`(${x}, ${y}) is outside the ${grid.width}x${grid.height} grid`);
+    }
+    if (action === 'add') {
+      if (grid.isBlocked(x, y)) {
+        throw new Error(`(${x}, ${y}) is already occupied`);
+      }
+      grid.add(new Obstacle(x, y));
+      console.log(`Added an obstacle at (${x}, ${y})`);
+    } else if (action === 'remove') {
+      const obstacles = grid.componentsAt(x, y).filter(c => c instanceof Obstacle);
+      if (obstacles.length === 0) {
+        throw new Error(`There is no obstacle at (${x}, ${y})`);
+      }
+      obstacles.forEach(obstacle => grid.remove(obstacle));
+      console.log(`Removed the obstacle at (${x}, ${y})`);
+    } else {
+      throw new Error(`Usage: ${usage}`);
+    }
+  }
+
+  private deploy(args: string[]): void {
+    const usage = 'deploy <name> <x> <y> [heading]';
+    const { grid, fleet } = this.simulation;
+    const name = this.argument(args, usage);
+    const headingName = (args[3] ?? grid.headings.headings()[0]!.name()).toUpperCase();
+    const heading = grid.headings.fromName(headingName);
+    if (!heading) {
+      throw new Error(`Unknown heading '${headingName}' (expected ${grid.headings.headings().map(h => h.name()).join(', ')})`);
+    }
+    const rover = fleet.deploy(name, this.coordinate(args[1], usage), this.coordinate(args[2], usage), heading, {
+      ...(this.options.sensorRadius !== undefined && { sensorRadius: this.options.sensorRadius }),
+      ...(this.options.maxSlope !== undefined && { maxSlope: this.options.maxSlope })
+    });
+    if (this.simulation.link) {
+      this.simulation.link.track(name);
+    } else {
+      rover.subscribe(logRoverEvent);
+    }
+    this.active = name;
+    console.log(`Deployed '${name}'; it is now the active rover`);
+  }
+
+  private switchRover(args: string[]): void {
+    const name = this.argument(args, 'rover <name>');
+    this.simulation.fleet.rover(name);
+    this.active = name;
+    console.log(`Active rover: ${name}`);
+  }
+
+  private async load(file: string): Promise<void> {
+    const text = await fs.promises.readFile(file, 'utf8');
+    let simulation: Simulation;
+    if (file.endsWith('.json')) {
+      const serializer = new SnapshotSerializer();
+      simulation = serializer.restore(serializer.parse(text));
+    } else {
+      const parser = file.endsWith(ASCII_MAP_EXTENSION) ? new AsciiMapParser() : new MissionParser();
+      simulation = new MissionRunner().prepare(parser.parse(text));
+      simulation.run();
+    }
+    const names = simulation.fleet.names();
+    if (names.length === 0) {
+      throw new Error(`${file} has no rovers`);
+    }
+    this.listen(simulation);
+    this.simulation = simulation;
+    this.parsers.clear();
+    this.active = names[0]!;
+    console.log(`Loaded ${file}`);
+    this.status();
+  }
+
+  private async save(file: string): Promise<void> {
+    const busy = this.simulation.fleet.names().find(name => this.simulation.queueOf(name)?.inProgress);
+    if (file.endsWith('.json') && busy !== undefined) {
+      throw new Error(`${busy} is part-way through a command; 'wait' for it to finish before saving a snapshot`);
+    }
+    const text = file.endsWith('.json')
+      ? new SnapshotSerializer().stringify(new SnapshotSerializer().capture(this.simulation))
+      : file.endsWith(ASCII_MAP_EXTENSION)
+        ? new AsciiMapWriter().write(this.simulation.grid, this.rovers())
+        : new MissionWriter().write(this.simulation);
+    await fs.promises.writeFile(file, text);
+    console.log(`Saved ${file}`);
+  }
+
+  // With a comms link, events only reach the console as telemetry after the light-time delay.
+  private listen(simulation: Simulation): void {
+    const { fleet, link } = simulation;
+    if (link) {
+      link.subscribe(this.telemetry);
+    } else {
+      fleet.names().forEach(name => fleet.rover(name).subscribe(logRoverEvent));
+    }
+  }
+
+  private finish(): void {
+    const rover = this.simulation.fleet.rover(this.active);
+    console.log('Final rover state:', rover.report());
+
+    const { snapshotPath, beliefPath } = this.options;
+    if (snapshotPath) {
+      this.write(snapshotPath, new GridRenderer(this.simulation.grid).snapshot(this.rovers()));
+    }
+    if (rover.belief && beliefPath) {
+      this.write(beliefPath, JSON.stringify(rover.belief.export(), null, 2) + '\n');
+    }
+  }
+
+  private write(target: string, text: string): void {
+    if (target === '-') {
+      process.stdout.write(text);
+    } else {
+      fs.writeFileSync(target, text);
+    }
+  }
+
+  private complete(line: string): [string[], string] {
+    const words = line.split(/\s+/);
+    const current = words.pop() ?? '';
+    const [first = ''] = words;
+    let candidates: string[];
+    if (words.length === 0) {
+      candidates = [...REPL_COMMANDS, ...LANGUAGE_WORDS, ...this.parser(this.active).macroNames()];
+    } else if (first === 'rover' && words.length === 1) {
+      candidates = this.simulation.fleet.names();
+    } else if (first === 'obstacle' && words.length === 1) {
+      candidates = ['add', 'remove'];
+    } else if (first === 'strict' && words.length === 1) {
+      candidates = ['on', 'off'];
+    } else if (first === 'load' || first === 'save') {
+      return [this.completePath(current), current];
+    } else {
+      candidates = [...LANGUAGE_WORDS, ...this.parser(this.active).macroNames()];
+    }
+    const hits = candidates.filter(candidate => candidate.toLowerCase().startsWith(current.toLowerCase()));
+    return [hits, current];
+  }
+
+  private completePath(prefix: string): string[] {
+    const directory = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/') + 1) : '';
+    try {
+      return fs.readdirSync(directory || '.')
+        .map(entry => directory + entry)
+        .filter(entry => entry.startsWith(prefix));
+    } catch {
+      return [];
+    }
+  }
+
+  private readHistory(): string[] {
+    try {
+      return fs.readFileSync(this.historyPath, 'utf8').split('\n').filter(line => line !== '').slice(-MAX_HISTORY);
+    } catch {
+      return [];
+    }
+  }
+
+  private remember(input: string): void {
+    this.inputs.push(input);
+    try {
+      fs.appendFileSync(this.historyPath, input + '\n');
+    } catch {
+      // History is a convenience; a read-only home directory must not stop the session.
+    }
+  }
+
+  private parser(name: string): CommandParser {
+    let parser = this.parsers.get(name);
+    if (!parser) {
+      parser = new CommandParser();
+      this.parsers.set(name, parser);
+    }
+    return parser;
+  }
+
+  private rovers(): Rover[] {
+    const { fleet } = this.simulation;
+    return fleet.names().map(name => fleet.rover(name));
+  }
+
+  private argument(args: string[], usage: string): string {
+    if (!args[0]) {
+      throw new Error(`Usage: ${usage}`);
+    }
+    return args[0];
+  }
+
+  private coordinate(text: string | undefined, usage: string): number {
+    const value = Number(text);
+    if (text === undefined || !Number.isInteger(value)) {
+      throw new Error(`Usage: ${usage}`);
+    }
+    return value;
+  }
+}
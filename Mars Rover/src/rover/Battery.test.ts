@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { Fleet } from '../fleet/Fleet';
+import { Battery, ConstantCharge, SolarCharge, DEFAULT_ENERGY_COSTS } from './Battery';
+import { BatteryDepletedError } from './BatteryDepletedError';
+import { CARDINAL_DIRECTIONS } from './Direction';
+
+const NORTH = CARDINAL_DIRECTIONS[0]!;
+
+test('stays between empty and full', () => {
+  const battery = new Battery(2, DEFAULT_ENERGY_COSTS, new ConstantCharge(1.5));
+  battery.drain(5);
+  assert.equal(battery.status(), 'battery 0.0/2 (depleted)');
+  battery.advance();
+  battery.advance();
+  assert.deepEqual([battery.level, battery.tick], [2, 2]);
+  assert.equal(battery.canAfford(2), true);
+  assert.equal(battery.canAfford(2.1), false);
+});
+
+test('solar charging follows the day and stops at night', () => {
+  const solar = new SolarCharge(2, 4);
+  assert.deepEqual([0, 1, 3, 5].map(tick => Math.round(solar.rateAt(tick) * 100) / 100), [0, 2, 0, 2]);
+});
+
+test('moves, turns and blocked moves drain their own costs', () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Obstacle(0, 2));
+  const fleet = new Fleet(grid);
+  const rover = fleet.deploy('a', 0, 0, NORTH, { battery: new Battery(5) });
+  fleet.run({ a: 'MMR' });
+  assert.equal(rover.battery!.level, 5 - 1 - 0.25 - 0.5);
+});
+
+test('refuses a command the battery cannot pay for and drops the rest', () => {
+  const fleet = new Fleet(new Grid(5, 5));
+  const rover = fleet.deploy('a', 0, 0, NORTH, { battery: new Battery(3) });
+  assert.equal(fleet.run({ a: 'MRMML' }).a, 'Rover is at (1, 1) facing E, battery 0.5/3');
+  const abort = fleet.abortOf('a');
+  assert.ok(abort instanceof BatteryDepletedError);
+  assert.deepEqual([abort.required, abort.available], [1, 0.5]);
+  assert.equal(rover.battery!.tick, 4);
+});
+
+test('recharges a tick at a time while the rover works', () => {
+  const fleet = new Fleet(new Grid(5, 5));
+  const rover = fleet.deploy('a', 0, 0, NORTH, { battery: new Battery(2, DEFAULT_ENERGY_COSTS, new ConstantCharge(0.5)) });
+  fleet.run({ a: 'MMMM' });
+  assert.equal(rover.report(), 'Rover is at (0, 3) facing N, battery 1.0/2');
+  assert.ok(fleet.abortOf('a') instanceof BatteryDepletedError);
+});
@@ -0,0 +1,77 @@
+export interface EnergyCosts {
+  move: number;
+  turn: number;
+  blocked: number;
+}
+
+export const DEFAULT_ENERGY_COSTS: EnergyCosts = { move: 1, turn: 0.5, blocked: 0.25 };
+
+export interface ChargeProfile {
+  rateAt(tick: number): number;
+}
+
+export class ConstantCharge implements ChargeProfile {
+  constructor(readonly rate: number) {}
+
+  rateAt(): number {
+    return this.rate;
+  }
+}
+
+// Charges along a sine curve during the daylight half of each day and not at all at night.
+export class SolarCharge implements ChargeProfile {
+  constructor(readonly peakRate: number, readonly dayLength: number) {}
+
+  rateAt(tick: number): number {
+    const phase = (tick % this.dayLength) / this.dayLength;
+    return Math.max(0, Math.sin(phase * 2 * Math.PI)) * this.peakRate;
+  }
+}
+
+export class Battery {
+  private charge: number;
+  private ticks = 0;
+
+  constructor(
+    readonly capacity: number,
+    readonly costs: EnergyCosts = DEFAULT_ENERGY_COSTS,
+    readonly profile: ChargeProfile = new ConstantCharge(0)
+  ) {
+    this.charge = capacity;
+  }
+
+  get level(): number {
+    return this.charge;
+  }
+
+  set level(value: number) {
+    this.charge = Math.min(this.capacity, Math.max(0, value));
+  }
+
+  get tick(): number {
+    return this.ticks;
+  }
+
+  resume(level: number, tick: number): void {
+    this.level = level;
+    this.ticks = tick;
+  }
+
+  canAfford(cost: number): boolean {
+    return this.charge + 1e-9 >= cost;
+  }
+
+  drain(cost: number): void {
+    this.level = this.charge - cost;
+  }
+
+  advance(): void {
+    this.level = this.charge + this.profile.rateAt(this.ticks);
+    this.ticks++;
+  }
+
+  status(): string {
+    const state = this.charge <= 1e-9 ? ' (depleted)' : '';
+    return `battery ${this.charge.toFixed(1)}/${this.capacity}${state}`;
+  }
+}
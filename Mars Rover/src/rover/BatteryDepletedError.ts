@@ -0,0 +1,8 @@
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+
+export class BatteryDepletedError extends SequenceAbortedError {
+  constructor(public readonly required: number, public readonly available: number) {
+    super(`Command refused: it needs ${required} energy but the battery only holds ${available.toFixed(1)}`);
+    this.name = 'BatteryDepletedError';
+  }
+}
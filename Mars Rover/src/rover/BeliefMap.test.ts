@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { Fleet } from '../fleet/Fleet';
+import { BeliefMap } from './BeliefMap';
+import { CARDINAL_DIRECTIONS } from './Direction';
+
+const scout = () => {
+  const grid = new Grid(4, 3);
+  grid.add(new Obstacle(1, 0));
+  const fleet = new Fleet(grid);
+  const rover = fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[0]!, { sensorRadius: 1 });
+  return { grid, fleet, rover };
+};
+
+test('starts out knowing only the cells within the sensor radius', () => {
+  const { rover } = scout();
+  const belief = rover.belief!.export();
+  assert.deepEqual(belief.rows, ['????', '.???', '.#??']);
+  assert.deepEqual([belief.free, belief.blocked, belief.unknown], [2, 1, 9]);
+});
+
+test('discovers more of the map as the rover moves', () => {
+  const { fleet, rover } = scout();
+  const before = rover.belief!.revision;
+  fleet.run({ a: 'M' });
+  assert.deepEqual(rover.belief!.export().rows, ['.???', '..??', '.#??']);
+  assert.ok(rover.belief!.revision > before);
+});
+
+test('treats unknown cells as passable and cells off the grid as blocked', () => {
+  const { rover } = scout();
+  const belief = rover.belief!;
+  assert.deepEqual([belief.isPassable(3, 2), belief.isPassable(1, 0), belief.isPassable(-1, 0)], [true, false, false]);
+  assert.equal(belief.beliefAt(9, 9), 'blocked');
+});
+
+test('restores an exported map', () => {
+  const { grid, rover } = scout();
+  const copy = new BeliefMap(grid, 1);
+  copy.restore(rover.belief!.export().rows);
+  assert.deepEqual(copy.export(), rover.belief!.export());
+});
+
+test('needs a whole number radius of at least one', () => {
+  const grid = new Grid(3, 3);
+  assert.throws(() => new BeliefMap(grid, 0), RangeError);
+  assert.throws(() => new BeliefMap(grid, 1.5), /positive integer, got 1.5/);
+});
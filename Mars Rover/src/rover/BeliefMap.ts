@@ -0,0 +1,102 @@
+import { Grid } from '../grid/Grid';
+
+export type CellBelief = 'unknown' | 'free' | 'blocked';
+
+const SYMBOLS: Record<CellBelief, string> = { unknown: '?', free: '.', blocked: '#' };
+
+export interface BeliefSummary {
+  free: number;
+  blocked: number;
+  unknown: number;
+}
+
+export interface BeliefExport extends BeliefSummary {
+  width: number;
+  height: number;
+  sensorRadius: number;
+  rows: string[];
+}
+
+// What one rover has discovered: cells stay unknown until sensed within its radius or bumped into.
+export class BeliefMap {
+  private cells: CellBelief[];
+  private changes = 0;
+
+  constructor(private readonly grid: Grid, readonly sensorRadius: number) {
+    if (!Number.isInteger(sensorRadius) || sensorRadius < 1) {
+      throw new RangeError(`Sensor radius must be a positive integer, got ${sensorRadius}`);
+    }
+    this.cells = new Array(grid.width * grid.height).fill('unknown');
+  }
+
+  get revision(): number {
+    return this.changes;
+  }
+
+  beliefAt(x: number, y: number): CellBelief {
+    return this.grid.withinBounds(x, y) ? this.cells[y * this.grid.width + x]! : 'blocked';
+  }
+
+  // Unknown cells are optimistically treated as passable so planners head into them.
+  isPassable(x: number, y: number): boolean {
+    return this.beliefAt(x, y) !== 'blocked';
+  }
+
+  mark(x: number, y: number, belief: CellBelief): void {
+    if (!this.grid.withinBounds(x, y)) {
+      return;
+    }
+    const index = y * this.grid.width + x;
+    if (this.cells[index] !== belief) {
+      this.cells[index] = belief;
+      this.changes++;
+    }
+  }
+
+  observe(x: number, y: number, passable: (x: number, y: number) => boolean): void {
+    const radius = this.sensorRadius;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (this.grid.headings.distance(dx, dy) > radius) {
+          continue;
+        }
+        const cell = this.grid.resolve(x + dx, y + dy);
+        if (cell) {
+          const [cx, cy] = cell;
+          this.mark(cx, cy, (cx === x && cy === y) || passable(cx, cy) ? 'free' : 'blocked');
+        }
+      }
+    }
+  }
+
+  restore(rows: string[]): void {
+    rows.forEach((row, index) => {
+      const y = this.grid.height - 1 - index;
+      [...row].forEach((symbol, x) => {
+        const belief = (Object.keys(SYMBOLS) as CellBelief[]).find(b => SYMBOLS[b] === symbol);
+        this.mark(x, y, belief ?? 'unknown');
+      });
+    });
+  }
+
+  summary(): BeliefSummary {
+    const summary: BeliefSummary = { free: 0, blocked: 0, unknown: 0 };
+    this.cells.forEach(belief => summary[belief]++);
+    return summary;
+  }
+
+  export(): BeliefExport {
+    const rows: string[] = [];
+    for (let y = this.grid.height - 1; y >= 0; y--) {
+      const start = y * this.grid.width;
+      rows.push(this.cells.slice(start, start + this.grid.width).map(belief => SYMBOLS[belief]).join(''));
+    }
+    return {
+      width: this.grid.width,
+      height: this.grid.height,
+      sensorRadius: this.sensorRadius,
+      ...this.summary(),
+      rows
+    };
+  }
+}
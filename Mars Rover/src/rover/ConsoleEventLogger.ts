@@ -0,0 +1,44 @@
+import { COLLECT_FAILURES, RoverEvent } from './RoverEvents';
+
+export function logRoverEvent(event: RoverEvent): void {
+  const text = describeRoverEvent(event);
+  if (text !== null) {
+    console.log(text);
+  }
+}
+
+// The console line for an event, or null for routine events such as moves and turns.
+export function describeRoverEvent(event: RoverEvent): string | null {
+  switch (event.type) {
+    case 'blocked-by-obstacle':
+      return `⚠️ Movement blocked at (${event.targetX}, ${event.targetY})`;
+    case 'blocked-by-boundary':
+      return `⚠️ Movement blocked at (${event.targetX}, ${event.targetY}): edge of the grid`;
+    case 'blocked-by-terrain':
+      return `⚠️ Movement blocked at (${event.targetX}, ${event.targetY}): impassable ${event.terrain}`;
+    case 'too-steep':
+      return `⚠️ Movement blocked at (${event.targetX}, ${event.targetY}): height change ${event.rise} exceeds the maximum slope ${event.maxSlope}`;
+    case 'sample-collected':
+      return `🧪 Collected a sample at (${event.x}, ${event.y}), carrying ${event.carried}/${event.capacity}`;
+    case 'collect-failed':
+      return `⚠️ Nothing collected at (${event.x}, ${event.y}): ${COLLECT_FAILURES[event.reason]}`;
+    case 'samples-unloaded':
+      return `📦 Unloaded ${event.count} sample${event.count === 1 ? '' : 's'} at base, ${event.delivered} delivered`;
+    case 'battery-depleted':
+      return `🔋 Battery too low: ${event.required} needed, ${event.available.toFixed(1)} left`;
+    case 'exploration-completed': {
+      const { report } = event;
+      const cells = (list: [number, number][]) => list.map(([x, y]) => `(${x}, ${y})`).join(' ');
+      const lines = [`🧭 Explored ${report.visited}/${report.coverable} cells (${report.coverage}%) in ${report.pathLength} moves`];
+      if (report.unvisited.length > 0) {
+        lines.push(`   Not visited: ${cells(report.unvisited)}`);
+      }
+      if (report.unreachable.length > 0) {
+        lines.push(`   Unreachable: ${cells(report.unreachable)}`);
+      }
+      return lines.join('\n');
+    }
+    default:
+      return null;
+  }
+}
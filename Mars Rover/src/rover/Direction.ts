@@ -6,29 +6,58 @@ export interface Direction {
 }
 
 export class North implements Direction {
-  left(): Direction  { return new West(); }
-  right(): Direction { return new East(); }
+  left(): Direction  { return WEST; }
+  right(): Direction { return EAST; }
   move(x: number, y: number): [number, number] { return [x, y + 1] as [number, number]; }
   name(): string { return 'N'; }
 }
 
 export class South implements Direction {
-  left(): Direction  { return new East(); }
-  right(): Direction { return new West(); }
+  left(): Direction  { return EAST; }
+  right(): Direction { return WEST; }
   move(x: number, y: number): [number, number] { return [x, y - 1] as [number, number]; }
   name(): string { return 'S'; }
 }
 
 export class East implements Direction {
-  left(): Direction  { return new North(); }
-  right(): Direction { return new South(); }
+  left(): Direction  { return NORTH; }
+  right(): Direction { return SOUTH; }
   move(x: number, y: number): [number, number] { return [x + 1, y] as [number, number]; }
   name(): string { return 'E'; }
 }
 
 export class West implements Direction {
-  left(): Direction  { return new South(); }
-  right(): Direction { return new North(); }
+  left(): Direction  { return SOUTH; }
+  right(): Direction { return NORTH; }
   move(x: number, y: number): [number, number] { return [x - 1, y] as [number, number]; }
   name(): string { return 'W'; }
 }
+
+const NORTH = new North();
+const SOUTH = new South();
+const EAST = new East();
+const WEST = new West();
+
+export const CARDINAL_DIRECTIONS: readonly Direction[] = [NORTH, EAST, SOUTH, WEST];
+
+// A heading on a fixed ring of headings, ordered clockwise; turning steps one slot along the ring.
+export class RingDirection implements Direction {
+  constructor(
+    private readonly ring: readonly RingDirection[],
+    private readonly index: number,
+    private readonly label: string,
+    private readonly dx: number,
+    private readonly dy: number
+  ) {}
+
+  static ring(headings: [string, number, number][]): readonly RingDirection[] {
+    const ring: RingDirection[] = [];
+    headings.forEach(([label, dx, dy], index) => ring.push(new RingDirection(ring, index, label, dx, dy)));
+    return ring;
+  }
+
+  left(): Direction  { return this.ring[(this.index + this.ring.length - 1) % this.ring.length]!; }
+  right(): Direction { return this.ring[(this.index + 1) % this.ring.length]!; }
+  move(x: number, y: number): [number, number] { return [x + this.dx, y + this.dy]; }
+  name(): string { return this.label; }
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { BlockAndContinuePolicy } from '../grid/BoundaryPolicy';
+import { Fleet } from '../fleet/Fleet';
+import { HeadingSystem, EightWayHeadings, HexHeadings, headingSystemFromName } from './HeadingSystem';
+import { CARDINAL_DIRECTIONS } from './Direction';
+
+const turns = (system: HeadingSystem, from: string, turn: 'left' | 'right', times: number) => {
+  let direction = system.fromName(from)!;
+  for (let i = 0; i < times; i++) {
+    direction = direction[turn]();
+  }
+  return direction.name();
+};
+
+test('eight-way headings turn by 45 degrees', () => {
+  const headings = new EightWayHeadings();
+  assert.equal(turns(headings, 'N', 'right', 1), 'NE');
+  assert.equal(turns(headings, 'N', 'left', 1), 'NW');
+  assert.equal(turns(headings, 'ne', 'right', 8), 'NE');
+  assert.deepEqual(headings.fromName('SW')!.move(2, 2), [1, 1]);
+  assert.equal(headings.distance(3, -5), 5);
+});
+
+test('hex headings turn by 60 degrees on axial coordinates', () => {
+  const headings = new HexHeadings();
+  assert.equal(turns(headings, 'NE', 'right', 3), 'SW');
+  assert.equal(turns(headings, 'E', 'left', 2), 'NW');
+  assert.equal(headings.fromName('N'), undefined);
+  assert.deepEqual(headings.fromName('NW')!.move(2, 2), [1, 3]);
+  assert.equal(headings.distance(2, -1), 2);
+  assert.equal(headings.distance(2, 1), 3);
+});
+
+test('heading systems are chosen by name', () => {
+  assert.deepEqual(['4', '8', 'HEX'].map(name => headingSystemFromName(name)!.name()), ['4', '8', 'hex']);
+  assert.equal(headingSystemFromName('6'), undefined);
+});
+
+test('rovers drive diagonally on an eight-way grid', () => {
+  const grid = new Grid(5, 5, new BlockAndContinuePolicy(), new EightWayHeadings());
+  const fleet = new Fleet(grid);
+  fleet.deploy('a', 0, 0, grid.headings.fromName('NE')!);
+  assert.equal(fleet.run({ a: 'MMRM' }).a, 'Rover is at (3, 2) facing E');
+});
+
+test('rovers cannot use a heading outside the grid heading system', () => {
+  const fleet = new Fleet(new Grid(5, 5, new BlockAndContinuePolicy(), new HexHeadings()));
+  assert.throws(() => fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[0]!), /not part of the 'hex' heading system/);
+});
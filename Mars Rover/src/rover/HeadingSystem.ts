@@ -0,0 +1,72 @@
+import { Direction, CARDINAL_DIRECTIONS, RingDirection } from './Direction';
+
+export interface HeadingSystem {
+  name(): string;
+  headings(): readonly Direction[];
+  fromName(name: string): Direction | undefined;
+  distance(dx: number, dy: number): number;
+}
+
+abstract class TableHeadingSystem implements HeadingSystem {
+  constructor(private readonly label: string, private readonly table: readonly Direction[]) {}
+
+  name(): string {
+    return this.label;
+  }
+
+  headings(): readonly Direction[] {
+    return this.table;
+  }
+
+  fromName(name: string): Direction | undefined {
+    return this.table.find(direction => direction.name() === name.toUpperCase());
+  }
+
+  abstract distance(dx: number, dy: number): number;
+}
+
+export class FourWayHeadings extends TableHeadingSystem {
+  constructor() {
+    super('4', CARDINAL_DIRECTIONS);
+  }
+
+  distance(dx: number, dy: number): number {
+    return Math.abs(dx) + Math.abs(dy);
+  }
+}
+
+export class EightWayHeadings extends TableHeadingSystem {
+  constructor() {
+    super('8', RingDirection.ring([
+      ['N', 0, 1], ['NE', 1, 1], ['E', 1, 0], ['SE', 1, -1],
+      ['S', 0, -1], ['SW', -1, -1], ['W', -1, 0], ['NW', -1, 1]
+    ]));
+  }
+
+  distance(dx: number, dy: number): number {
+    return Math.max(Math.abs(dx), Math.abs(dy));
+  }
+}
+
+// Axial hex coordinates: x is the column, y the diagonal row, so NE and SW move along y only.
+export class HexHeadings extends TableHeadingSystem {
+  constructor() {
+    super('hex', RingDirection.ring([
+      ['NE', 0, 1], ['E', 1, 0], ['SE', 1, -1],
+      ['SW', 0, -1], ['W', -1, 0], ['NW', -1, 1]
+    ]));
+  }
+
+  distance(dx: number, dy: number): number {
+    return (Math.abs(dx) + Math.abs(dy) + Math.abs(dx + dy)) / 2;
+  }
+}
+
+export function headingSystemFromName(name: string): HeadingSystem | undefined {
+  switch (name.toLowerCase()) {
+    case '4': return new FourWayHeadings();
+    case '8': return new EightWayHeadings();
+    case 'hex': return new HexHeadings();
+    default: return undefined;
+  }
+}
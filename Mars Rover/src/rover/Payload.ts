@@ -0,0 +1,40 @@
+import { Sample } from '../grid/Sample';
+
+export class Payload {
+  private cargo: Sample[] = [];
+  private unloaded: Sample[] = [];
+
+  constructor(readonly capacity: number) {}
+
+  get carried(): Sample[] {
+    return [...this.cargo];
+  }
+
+  get delivered(): Sample[] {
+    return [...this.unloaded];
+  }
+
+  resume(carried: Sample[], delivered: Sample[]): void {
+    this.cargo = [...carried];
+    this.unloaded = [...delivered];
+  }
+
+  isFull(): boolean {
+    return this.cargo.length >= this.capacity;
+  }
+
+  load(sample: Sample): void {
+    this.cargo.push(sample);
+  }
+
+  unload(): number {
+    const count = this.cargo.length;
+    this.unloaded.push(...this.cargo);
+    this.cargo = [];
+    return count;
+  }
+
+  status(): string {
+    return `payload ${this.cargo.length}/${this.capacity}, ${this.unloaded.length} delivered`;
+  }
+}
@@ -1,36 +1,298 @@
 import { Grid } from '../grid/Grid';
+import { GridComponent } from '../grid/GridComponent';
 import { Direction } from './Direction';
+import { RoverEvent, RoverEventListener, RoverEventPayload } from './RoverEvents';
+import { Battery } from './Battery';
+import { BatteryDepletedError } from './BatteryDepletedError';
+import { BeliefMap } from './BeliefMap';
+import { Payload } from './Payload';
+import { Base } from '../grid/Base';
+import { Sample } from '../grid/Sample';
+import { CoverageReport } from '../navigation/CoverageStrategy';
 
-export class Rover {
-  private x: number;
-  private y: number;
-  private direction: Direction;
+export interface RoverState {
+  x: number;
+  y: number;
+  direction: Direction;
+  traversalCost: number;
+  energy?: number;
+  cargo?: { carried: Sample[]; delivered: Sample[] };
+}
+
+export interface RoverOptions {
+  battery?: Battery;
+  capabilities?: string[];
+  sensorRadius?: number;
+  maxSlope?: number;
+  payload?: Payload;
+}
+
+export class Rover extends GridComponent {
+  private state: RoverState;
+  private path: [number, number][];
+  private listeners: RoverEventListener[] = [];
+  private commandIndex = 0;
+  readonly battery: Battery | null;
+  readonly capabilities: ReadonlySet<string>;
+  readonly belief: BeliefMap | null;
+  readonly maxSlope: number | null;
+  readonly payload: Payload | null;
+
+  constructor(x: number, y: number, direction: Direction, public readonly grid: Grid, options: RoverOptions = {}) {
+    super();
+    const heading = grid.headings.fromName(direction.name());
+    if (!heading) {
+      throw new Error(`Heading '${direction.name()}' is not part of the '${grid.headings.name()}' heading system`);
+    }
+    this.state = { x, y, direction: heading, traversalCost: 0 };
+    this.path = [[x, y]];
+    this.battery = options.battery ?? null;
+    this.capabilities = new Set(options.capabilities ?? []);
+    this.belief = options.sensorRadius !== undefined ? new BeliefMap(grid, options.sensorRadius) : null;
+    this.maxSlope = options.maxSlope ?? null;
+    this.payload = options.payload ?? null;
+    this.sense();
+  }
+
+  get x(): number {
+    return this.state.x;
+  }
+
+  get y(): number {
+    return this.state.y;
+  }
+
+  get direction(): Direction {
+    return this.state.direction;
+  }
+
+  get traversalCost(): number {
+    return this.state.traversalCost;
+  }
+
+  trail(): [number, number][] {
+    return this.path.map(([x, y]) => [x, y] as [number, number]);
+  }
+
+  restoreTrail(trail: [number, number][]): void {
+    this.path = trail.map(([x, y]) => [x, y] as [number, number]);
+  }
+
+  subscribe(listener: RoverEventListener): void {
+    if (!this.listeners.includes(listener)) {
+      this.listeners.push(listener);
+    }
+  }
+
+  unsubscribe(listener: RoverEventListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  beginCommand(index: number): void {
+    this.commandIndex = index;
+    this.sense();
+  }
+
+  tick(): void {
+    this.battery?.advance();
+  }
+
+  completeSequence(): void {
+    this.emit({ type: 'sequence-completed', heading: this.direction.name() });
+  }
 
-  constructor(x: number, y: number, direction: Direction, private grid: Grid) {
-    this.x = x;
-    this.y = y;
-    this.direction = direction;
+  completeExploration(report: CoverageReport): void {
+    this.emit({ type: 'exploration-completed', report });
+  }
+
+  isObstacle(): boolean {
+    return true;
   }
 
   turnLeft(): void {
-    this.direction = this.direction.left();
+    this.turn(this.state.direction.left());
   }
 
   turnRight(): void {
-    this.direction = this.direction.right();
+    this.turn(this.state.direction.right());
   }
 
   moveForward(): void {
-    const [nx, ny] = this.direction.move(this.x, this.y);
-    if (this.grid.withinBounds(nx, ny) && !this.grid.isBlocked(nx, ny)) {
-      this.x = nx;
-      this.y = ny;
-    } else {
-      console.log(`⚠️ Movement blocked at (${nx}, ${ny})`);
+    const costs = this.battery?.costs;
+    const [tx, ty] = this.state.direction.move(this.state.x, this.state.y);
+    const target = this.grid.resolve(tx, ty);
+    if (!target) {
+      this.spend(costs?.blocked);
+      this.emit({ type: 'blocked-by-boundary', targetX: tx, targetY: ty });
+      this.grid.boundaryPolicy.blocked(tx, ty, 'boundary');
+      return;
+    }
+    const [nx, ny] = target;
+    if (this.grid.isBlocked(nx, ny)) {
+      this.belief?.mark(nx, ny, 'blocked');
+      this.spend(costs?.blocked);
+      this.emit({ type: 'blocked-by-obstacle', targetX: nx, targetY: ny });
+      this.grid.boundaryPolicy.blocked(nx, ny, 'obstacle');
+      return;
+    }
+    const terrain = this.grid.terrainAt(nx, ny);
+    if (terrain && !terrain.isPassable(this.capabilities)) {
+      this.belief?.mark(nx, ny, 'blocked');
+      this.spend(costs?.blocked);
+      this.emit({ type: 'blocked-by-terrain', targetX: nx, targetY: ny, terrain: terrain.kind });
+      this.grid.boundaryPolicy.blocked(nx, ny, 'terrain');
+      return;
+    }
+    if (!this.canClimb(this.x, this.y, nx, ny)) {
+      const rise = this.grid.heightAt(nx, ny) - this.grid.heightAt(this.x, this.y);
+      this.spend(costs?.blocked);
+      this.emit({ type: 'too-steep', targetX: nx, targetY: ny, rise, maxSlope: this.maxSlope! });
+      this.grid.boundaryPolicy.blocked(nx, ny, 'slope');
+      return;
+    }
+
+    const [dx, dy] = this.state.direction.move(0, 0);
+    const cost = terrain ? terrain.cost(dx, dy) : 1;
+    this.spend(costs && costs.move * cost);
+    this.step(nx, ny, cost, false);
+
+    for (let slide = terrain ? terrain.slide() : 0; slide > 0; slide--) {
+      const next = this.grid.resolve(...this.state.direction.move(this.x, this.y));
+      if (!next || !this.canActuallyEnter(...next) || !this.canClimb(this.x, this.y, ...next)) {
+        break;
+      }
+      this.step(next[0], next[1], 0, true);
+    }
+  }
+
+  collect(): void {
+    if (!this.payload) {
+      this.emit({ type: 'collect-failed', reason: 'no-payload' });
+      return;
+    }
+    const sample = this.grid.componentsAt(this.x, this.y).find((c): c is Sample => c instanceof Sample);
+    if (!sample) {
+      this.emit({ type: 'collect-failed', reason: 'no-sample' });
+      return;
+    }
+    if (this.payload.isFull()) {
+      this.emit({ type: 'collect-failed', reason: 'payload-full' });
+      return;
+    }
+    this.grid.remove(sample);
+    this.payload.load(sample);
+    this.emit({ type: 'sample-collected', carried: this.payload.carried.length, capacity: this.payload.capacity });
+    this.unloadAtBase();
+  }
+
+  isAtBase(): boolean {
+    return this.grid.componentsAt(this.x, this.y).some(c => c instanceof Base);
+  }
+
+  canEnter(x: number, y: number): boolean {
+    return this.belief ? this.belief.isPassable(x, y) : this.canActuallyEnter(x, y);
+  }
+
+  // Heights are known from orbit, so unlike obstacles they need no sensing. The limit applies to
+  // climbing and descending alike.
+  canClimb(fromX: number, fromY: number, x: number, y: number): boolean {
+    return this.maxSlope === null || Math.abs(this.grid.heightAt(x, y) - this.grid.heightAt(fromX, fromY)) <= this.maxSlope;
+  }
+
+  snapshot(): RoverState {
+    const snapshot: RoverState = { ...this.state };
+    if (this.battery) {
+      snapshot.energy = this.battery.level;
+    }
+    if (this.payload) {
+      snapshot.cargo = { carried: this.payload.carried, delivered: this.payload.delivered };
+    }
+    return snapshot;
+  }
+
+  restore(state: RoverState): void {
+    this.update({ x: state.x, y: state.y, direction: state.direction, traversalCost: state.traversalCost });
+    if (this.battery && state.energy !== undefined) {
+      this.battery.level = state.energy;
+    }
+    if (this.payload && state.cargo) {
+      this.restoreCargo(state.cargo.carried, state.cargo.delivered);
     }
   }
 
   report(): string {
-    return `Rover is at (${this.x}, ${this.y}) facing ${this.direction.name()}`;
+    const position = `Rover is at (${this.x}, ${this.y}) facing ${this.direction.name()}`;
+    return [position, this.battery?.status(), this.payload?.status()].filter(Boolean).join(', ');
+  }
+
+  private update(next: RoverState): void {
+    const previous = this.state;
+    this.state = next;
+    if (previous.x !== next.x || previous.y !== next.y) {
+      this.grid.relocate(this, previous.x, previous.y);
+      this.path.push([next.x, next.y]);
+      this.sense();
+    }
+  }
+
+  // The rover's own cell counts as free, so a route may pass back through where it started.
+  private canActuallyEnter(x: number, y: number): boolean {
+    if (this.grid.componentsAt(x, y).some(c => c !== this && c.isObstacle())) {
+      return false;
+    }
+    const terrain = this.grid.terrainAt(x, y);
+    return !terrain || terrain.isPassable(this.capabilities);
+  }
+
+  // Samples picked up since the saved state go back on the ground, and samples the saved state had
+  // already picked up leave it again.
+  private restoreCargo(carried: Sample[], delivered: Sample[]): void {
+    const kept = new Set([...carried, ...delivered]);
+    [...this.payload!.carried, ...this.payload!.delivered].filter(sample => !kept.has(sample)).forEach(sample => this.grid.add(sample));
+    kept.forEach(sample => this.grid.remove(sample));
+    this.payload!.resume(carried, delivered);
+  }
+
+  private unloadAtBase(): void {
+    if (!this.payload || this.payload.carried.length === 0 || !this.isAtBase()) {
+      return;
+    }
+    const count = this.payload.unload();
+    this.emit({ type: 'samples-unloaded', count, delivered: this.payload.delivered.length });
+  }
+
+  private sense(): void {
+    this.belief?.observe(this.x, this.y, (x, y) => this.canActuallyEnter(x, y));
+  }
+
+  private step(x: number, y: number, cost: number, sliding: boolean): void {
+    const { x: fromX, y: fromY } = this.state;
+    this.update({ ...this.state, x, y, traversalCost: this.state.traversalCost + cost });
+    this.emit({ type: 'moved', fromX, fromY, sliding });
+    this.unloadAtBase();
+  }
+
+  private spend(cost: number | undefined): void {
+    if (!this.battery || cost === undefined) {
+      return;
+    }
+    if (!this.battery.canAfford(cost)) {
+      const available = this.battery.level;
+      this.emit({ type: 'battery-depleted', required: cost, available });
+      throw new BatteryDepletedError(cost, available);
+    }
+    this.battery.drain(cost);
+  }
+
+  private turn(direction: Direction): void {
+    this.spend(this.battery?.costs.turn);
+    const from = this.state.direction.name();
+    this.state = { ...this.state, direction };
+    this.emit({ type: 'turned', from, to: direction.name() });
+  }
+
+  private emit(event: RoverEventPayload): void {
+    const full = { ...event, commandIndex: this.commandIndex, x: this.x, y: this.y } as RoverEvent;
+    this.listeners.forEach(listener => listener(full));
   }
 }
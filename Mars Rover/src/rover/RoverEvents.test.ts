@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { Fleet } from '../fleet/Fleet';
+import { CARDINAL_DIRECTIONS } from './Direction';
+import { RoverEvent } from './RoverEvents';
+import { describeRoverEvent } from './ConsoleEventLogger';
+
+const drive = (commands: string) => {
+  const grid = new Grid(3, 3);
+  grid.add(new Obstacle(1, 1));
+  const fleet = new Fleet(grid);
+  fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[0]!);
+  const events: RoverEvent[] = [];
+  fleet.rover('a').subscribe(event => events.push(event));
+  fleet.run({ a: commands });
+  return events;
+};
+
+test('emits an event for every move, turn and block with the command index', () => {
+  const events = drive('MRMLMM');
+  assert.deepEqual(events.map(event => [event.type, event.commandIndex, event.x, event.y]), [
+    ['moved', 0, 0, 1],
+    ['turned', 1, 0, 1],
+    ['blocked-by-obstacle', 2, 0, 1],
+    ['turned', 3, 0, 1],
+    ['moved', 4, 0, 2],
+    ['blocked-by-boundary', 5, 0, 2],
+    ['sequence-completed', 5, 0, 2]
+  ]);
+  assert.deepEqual(events[0], { type: 'moved', fromX: 0, fromY: 0, sliding: false, commandIndex: 0, x: 0, y: 1 });
+  assert.deepEqual(events[1], { type: 'turned', from: 'N', to: 'E', commandIndex: 1, x: 0, y: 1 });
+  assert.deepEqual(events[6], { type: 'sequence-completed', heading: 'N', commandIndex: 5, x: 0, y: 2 });
+});
+
+test('unsubscribed listeners hear nothing more', () => {
+  const fleet = new Fleet(new Grid(3, 3));
+  const rover = fleet.deploy('a', 0, 0, CARDINAL_DIRECTIONS[0]!);
+  const events: string[] = [];
+  const listener = (event: RoverEvent) => events.push(event.type);
+  rover.subscribe(listener);
+  rover.subscribe(listener);
+  fleet.run({ a: 'M' });
+  rover.unsubscribe(listener);
+  fleet.run({ a: 'M' });
+  assert.deepEqual(events, ['moved', 'sequence-completed']);
+});
+
+test('the console logger describes blocks but not routine moves', () => {
+  const lines = drive('MRMLMM').map(describeRoverEvent);
+  assert.deepEqual(lines.filter(line => line !== null), [
+    '⚠️ Movement blocked at (1, 1)',
+    '⚠️ Movement blocked at (0, 3): edge of the grid'
+  ]);
+});
@@ -0,0 +1,104 @@
+import { CoverageReport } from '../navigation/CoverageStrategy';
+
+interface RoverEventBase {
+  commandIndex: number;
+  x: number;
+  y: number;
+}
+
+export interface MovedEvent extends RoverEventBase {
+  type: 'moved';
+  fromX: number;
+  fromY: number;
+  sliding: boolean;
+}
+
+export interface TurnedEvent extends RoverEventBase {
+  type: 'turned';
+  from: string;
+  to: string;
+}
+
+export interface BlockedByObstacleEvent extends RoverEventBase {
+  type: 'blocked-by-obstacle';
+  targetX: number;
+  targetY: number;
+}
+
+export interface BlockedByBoundaryEvent extends RoverEventBase {
+  type: 'blocked-by-boundary';
+  targetX: number;
+  targetY: number;
+}
+
+export interface BlockedByTerrainEvent extends RoverEventBase {
+  type: 'blocked-by-terrain';
+  targetX: number;
+  targetY: number;
+  terrain: string;
+}
+
+export interface TooSteepEvent extends RoverEventBase {
+  type: 'too-steep';
+  targetX: number;
+  targetY: number;
+  rise: number;
+  maxSlope: number;
+}
+
+export interface SampleCollectedEvent extends RoverEventBase {
+  type: 'sample-collected';
+  carried: number;
+  capacity: number;
+}
+
+export interface CollectFailedEvent extends RoverEventBase {
+  type: 'collect-failed';
+  reason: 'no-sample' | 'payload-full' | 'no-payload';
+}
+
+export const COLLECT_FAILURES: Record<CollectFailedEvent['reason'], string> = {
+  'no-sample': 'there is no sample here',
+  'payload-full': 'the payload is full',
+  'no-payload': 'the rover has no payload bay'
+};
+
+export interface SamplesUnloadedEvent extends RoverEventBase {
+  type: 'samples-unloaded';
+  count: number;
+  delivered: number;
+}
+
+export interface BatteryDepletedEvent extends RoverEventBase {
+  type: 'battery-depleted';
+  required: number;
+  available: number;
+}
+
+export interface SequenceCompletedEvent extends RoverEventBase {
+  type: 'sequence-completed';
+  heading: string;
+}
+
+export interface ExplorationCompletedEvent extends RoverEventBase {
+  type: 'exploration-completed';
+  report: CoverageReport;
+}
+
+export type RoverEvent =
+  | MovedEvent
+  | TurnedEvent
+  | BlockedByObstacleEvent
+  | BlockedByBoundaryEvent
+  | BlockedByTerrainEvent
+  | TooSteepEvent
+  | SampleCollectedEvent
+  | CollectFailedEvent
+  | SamplesUnloadedEvent
+  | BatteryDepletedEvent
+  | SequenceCompletedEvent
+  | ExplorationCompletedEvent;
+
+export type RoverEventPayload<E = RoverEvent> = E extends RoverEvent ? Omit<E, keyof RoverEventBase> : never;
+
+export type RoverEventListener = (event: RoverEvent) => void;
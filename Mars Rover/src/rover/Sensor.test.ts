@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { Fleet } from '../fleet/Fleet';
+import { LoopLimitExceededError } from '../commands/LoopLimitExceededError';
+import { CARDINAL_DIRECTIONS } from './Direction';
+import { sense, evaluate } from './Sensor';
+
+const [NORTH, EAST] = CARDINAL_DIRECTIONS;
+
+const fleetWithObstacle = () => {
+  const grid = new Grid(5, 5);
+  grid.add(new Obstacle(0, 3));
+  return new Fleet(grid);
+};
+
+test('senses the grid edge and blocked cells ahead', () => {
+  const fleet = fleetWithObstacle();
+  const corner = fleet.deploy('a', 4, 0, EAST!);
+  const below = fleet.deploy('b', 0, 2, NORTH!);
+  assert.deepEqual([sense(corner, 'EDGE'), sense(corner, 'BLOCKED')], [true, true]);
+  assert.deepEqual([sense(below, 'EDGE'), sense(below, 'BLOCKED')], [false, true]);
+  assert.equal(evaluate(below, { sensor: 'BLOCKED', negated: true }), false);
+});
+
+test('WHILE repeats its body until the condition fails', () => {
+  const fleet = fleetWithObstacle();
+  fleet.deploy('a', 0, 0, NORTH!);
+  fleet.deploy('b', 1, 0, NORTH!);
+  assert.deepEqual(fleet.run({ a: 'WHILE NOT BLOCKED M', b: 'WHILE NOT EDGE M R' }), {
+    a: 'Rover is at (0, 2) facing N',
+    b: 'Rover is at (1, 4) facing E'
+  });
+});
+
+test('IF picks a branch from the sensor reading', () => {
+  const fleet = fleetWithObstacle();
+  fleet.deploy('a', 0, 2, NORTH!);
+  fleet.deploy('b', 2, 2, NORTH!);
+  const sequence = 'IF BLOCKED THEN R ELSE M';
+  assert.deepEqual(fleet.run({ a: sequence, b: sequence }), {
+    a: 'Rover is at (0, 2) facing E',
+    b: 'Rover is at (2, 3) facing N'
+  });
+});
+
+test('a runaway WHILE loop aborts the rover and leaves the others running', () => {
+  const fleet = new Fleet(new Grid(3, 3));
+  fleet.deploy('a', 1, 1, NORTH!);
+  fleet.deploy('b', 0, 0, EAST!);
+  const reports = fleet.run({ a: 'WHILE NOT EDGE R', b: 'MM' }, 'interleaved');
+  assert.ok(fleet.abortOf('a') instanceof LoopLimitExceededError);
+  assert.match(fleet.abortOf('a')!.message, /WHILE loop exceeded 10000 iterations/);
+  assert.equal(reports.b, 'Rover is at (2, 0) facing E');
+});
@@ -0,0 +1,26 @@
+import { Rover } from './Rover';
+
+export type SensorName = 'BLOCKED' | 'EDGE';
+
+export const SENSOR_NAMES: readonly SensorName[] = ['BLOCKED', 'EDGE'];
+
+export interface Condition {
+  sensor: SensorName;
+  negated: boolean;
+}
+
+export function sense(rover: Rover, sensor: SensorName): boolean {
+  const [tx, ty] = rover.direction.move(rover.x, rover.y);
+  switch (sensor) {
+    case 'EDGE':
+      return !rover.grid.withinBounds(tx, ty);
+    case 'BLOCKED': {
+      const target = rover.grid.resolve(tx, ty);
+      return !target || !rover.canEnter(...target) || !rover.canClimb(rover.x, rover.y, ...target);
+    }
+  }
+}
+
+export function evaluate(rover: Rover, condition: Condition): boolean {
+  return sense(rover, condition.sensor) !== condition.negated;
+}
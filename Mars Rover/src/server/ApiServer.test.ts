@@ -0,0 +1,97 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { ApiServer } from './ApiServer';
+
+const server = new ApiServer();
+let port = 0;
+
+before(async () => {
+  port = (await server.listen(0)).port;
+});
+
+after(() => server.close());
+
+// Raw requests, so malformed paths reach the server exactly as written.
+const request = (method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> =>
+  new Promise((resolve, reject) => {
+    const outgoing = http.request({ host: '127.0.0.1', port, method, path }, response => {
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => (data += chunk));
+      response.on('end', () => resolve({ status: response.statusCode!, body: JSON.parse(data) }));
+    });
+    outgoing.on('error', reject);
+    outgoing.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+test('creates grids and rovers and runs sequences', async () => {
+  assert.equal((await request('POST', '/grids', { id: 'run', width: 5, height: 5 })).status, 201);
+  assert.equal((await request('POST', '/grids/run/rovers', { name: 'a', x: 0, y: 0, heading: 'N' })).status, 201);
+  const moved = await request('POST', '/grids/run/rovers/a/commands', { sequence: 'MMRM' });
+  assert.equal(moved.status, 200);
+  assert.deepEqual([moved.body.x, moved.body.y, moved.body.heading], [1, 2, 'E']);
+  const history = await request('GET', '/grids/run/rovers/a/history');
+  assert.deepEqual(history.body.sequences.map((s: { sequence: string }) => s.sequence), ['MMRM']);
+});
+
+test('answers sequences that abort with 422 and the rover state', async () => {
+  await request('POST', '/grids', { id: 'abort', width: 3, height: 3 });
+  await request('POST', '/grids/abort/obstacles', { x: 2, y: 1 });
+  await request('POST', '/grids/abort/obstacles', { x: 1, y: 2 });
+  await request('POST', '/grids/abort/rovers', { name: 'a', x: 1, y: 1, heading: 'N' });
+
+  const unreachable = await request('POST', '/grids/abort/rovers/a/commands', { sequence: 'G(2,2)' });
+  assert.equal(unreachable.status, 422);
+  assert.match(unreachable.body.error, /Target \(2, 2\) is unreachable/);
+  assert.deepEqual([unreachable.body.rover.x, unreachable.body.rover.y], [1, 1]);
+
+  const loop = await request('POST', '/grids/abort/rovers/a/commands', { sequence: 'WHILE NOT EDGE R' });
+  assert.equal(loop.status, 422);
+  assert.match(loop.body.error, /WHILE loop exceeded/);
+
+  assert.equal((await request('POST', '/grids/abort/rovers/a/commands', { sequence: 'L' })).status, 200);
+});
+
+test('a sequence sent after an abort runs on its own', async () => {
+  await request('POST', '/grids', { id: 'edge', width: 5, height: 5, boundary: 'abort' });
+  await request('POST', '/grids/edge/rovers', { name: 'a', x: 0, y: 3, heading: 'N' });
+  assert.equal((await request('POST', '/grids/edge/rovers/a/commands', { sequence: 'MMRRR' })).status, 422);
+  const turned = await request('POST', '/grids/edge/rovers/a/commands', { sequence: 'L' });
+  assert.deepEqual([turned.status, turned.body.x, turned.body.y, turned.body.heading], [200, 0, 4, 'W']);
+});
+
+test('answers bad requests with 4xx errors', async () => {
+  assert.equal((await request('GET', '/grids/%E0%A4%A')).status, 400);
+  assert.equal((await request('GET', '/nowhere')).status, 404);
+  assert.equal((await request('PUT', '/grids')).status, 405);
+  assert.equal((await request('POST', '/grids', { width: 100000, height: 5 })).status, 400);
+  assert.equal((await request('POST', '/grids', { width: 5, height: 1001 })).status, 400);
+
+  await request('POST', '/grids', { id: 'bad', width: 5, height: 5 });
+  await request('POST', '/grids/bad/rovers', { name: 'a', x: 0, y: 0 });
+  const syntax = await request('POST', '/grids/bad/rovers/a/commands', { sequence: 'MMQ' });
+  assert.equal(syntax.status, 400);
+  assert.deepEqual([syntax.body.line, syntax.body.column], [1, 1]);
+  assert.equal((await request('POST', '/grids/bad/rovers', { name: 'a', x: 1, y: 1 })).status, 409);
+});
+
+test('answers bad deployments with 400 and taken cells with 409', async () => {
+  await request('POST', '/grids', { id: 'deploy', width: 3, height: 3 });
+  await request('POST', '/grids/deploy/obstacles', { x: 1, y: 1 });
+  assert.equal((await request('POST', '/grids/deploy/rovers', { name: 'a', x: 3, y: 0 })).status, 400);
+  assert.equal((await request('POST', '/grids/deploy/rovers', { name: 'a', x: 0, y: 0, heading: 'NE' })).status, 400);
+  assert.equal((await request('POST', '/grids/deploy/rovers', { name: 'a', x: 1, y: 1 })).status, 409);
+  assert.equal((await request('POST', '/grids/deploy/rovers', { name: 'a', x: 0, y: 0 })).status, 201);
+  assert.equal((await request('POST', '/grids/deploy/rovers', { name: 'b', x: 0, y: 0 })).status, 409);
+});
+
+test('checks sequences with dry runs and strict mode', async () => {
+  await request('POST', '/grids', { id: 'dry', width: 3, height: 3 });
+  await request('POST', '/grids/dry/rovers', { name: 'a', x: 0, y: 0, heading: 'S' });
+  const dryRun = await request('POST', '/grids/dry/rovers/a/commands', { sequence: 'RM', dryRun: true });
+  assert.deepEqual([dryRun.status, dryRun.body.valid, dryRun.body.firstFailure], [200, false, 1]);
+  const strict = await request('POST', '/grids/dry/rovers/a/commands', { sequence: 'RM', strict: true });
+  assert.equal(strict.status, 422);
+  assert.equal((await request('GET', '/grids/dry/rovers/a')).body.heading, 'S');
+});
@@ -0,0 +1,342 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Grid } from '../grid/Grid';
+import { Obstacle } from '../grid/Obstacle';
+import { HeightMap } from '../grid/HeightMap';
+import { boundaryPolicyFromName } from '../grid/BoundaryPolicy';
+import { headingSystemFromName } from '../rover/HeadingSystem';
+import { Rover } from '../rover/Rover';
+import { Battery, DEFAULT_ENERGY_COSTS, SolarCharge } from '../rover/Battery';
+import { RoverEvent } from '../rover/RoverEvents';
+import { Fleet, ExecutionMode } from '../fleet/Fleet';
+import { Simulation } from '../simulation/Simulation';
+import { SnapshotSerializer } from '../persistence/SnapshotSerializer';
+import { CommandSyntaxError } from '../language/CommandSyntaxError';
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+import { SequenceValidator } from '../validation/SequenceValidator';
+import { HttpError } from './HttpError';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_GRID_SIDE = 1000;
+
+type Body = Record<string, unknown>;
+type Handler = (params: string[], body: Body) => [number, unknown];
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+interface Session {
+  simulation: Simulation;
+  events: Map<string, RoverEvent[]>;
+}
+
+// JSON over HTTP for dashboards and test harnesses; every grid is an independent simulation.
+export class ApiServer {
+  private sessions = new Map<string, Session>();
+  private nextId = 1;
+  private readonly serializer = new SnapshotSerializer();
+  private readonly server = http.createServer((request, response) => this.handle(request, response));
+  private readonly routes: Route[] = [
+    { method: 'GET', pattern: /^\/grids$/, handler: () => [200, this.listGrids()] },
+    { method: 'POST', pattern: /^\/grids$/, handler: (_, body) => [201, this.createGrid(body)] },
+    { method: 'GET', pattern: /^\/grids\/([^/]+)$/, handler: ([id]) => [200, this.serializer.capture(this.session(id!).simulation)] },
+    { method: 'DELETE', pattern: /^\/grids\/([^/]+)$/, handler: ([id]) => [200, this.deleteGrid(id!)] },
+    { method: 'POST', pattern: /^\/grids\/([^/]+)\/obstacles$/, handler: ([id], body) => [201, this.addObstacle(id!, body)] },
+    { method: 'GET', pattern: /^\/grids\/([^/]+)\/rovers$/, handler: ([id]) => [200, this.listRovers(id!)] },
+    { method: 'POST', pattern: /^\/grids\/([^/]+)\/rovers$/, handler: ([id], body) => [201, this.createRover(id!, body)] },
+    { method: 'GET', pattern: /^\/grids\/([^/]+)\/rovers\/([^/]+)$/, handler: ([id, name]) => [200, this.roverState(id!, name!)] },
+    {
+      method: 'POST',
+      pattern: /^\/grids\/([^/]+)\/rovers\/([^/]+)\/commands$/,
+      handler: ([id, name], body) => [200, this.runCommands(id!, name!, body)]
+    },
+    { method: 'GET', pattern: /^\/grids\/([^/]+)\/rovers\/([^/]+)\/history$/, handler: ([id, name]) => [200, this.history(id!, name!)] }
+  ];
+
+  listen(port: number, host: string = '127.0.0.1'): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve(this.server.address() as AddressInfo));
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    let status: number;
+    let payload: unknown;
+    try {
+      const path = this.path(request);
+      const matches = this.routes.filter(route => route.pattern.test(path));
+      const route = matches.find(r => r.method === request.method);
+      if (!route) {
+        throw matches.length > 0 ? new HttpError(405, `Method ${request.method} not allowed on ${path}`) : new HttpError(404, `No route for ${path}`);
+      }
+      const body = request.method === 'POST' ? await this.readBody(request) : {};
+      [status, payload] = route.handler(route.pattern.exec(path)!.slice(1), body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        [status, payload] = [error.status, { error: error.message, ...error.details }];
+      } else if (error instanceof CommandSyntaxError) {
+        [status, payload] = [400, { error: error.reason, line: error.line, column: error.column }];
+      } else if (error instanceof SequenceAbortedError) {
+        [status, payload] = [422, { error: error.message }];
+      } else {
+        [status, payload] = [500, { error: (error as Error).message }];
+      }
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(payload) + '\n');
+  }
+
+  private path(request: http.IncomingMessage): string {
+    try {
+      return decodeURI(new URL(request.url ?? '/', 'http://localhost').pathname).replace(/\/+$/, '') || '/';
+    } catch {
+      throw new HttpError(400, `Malformed request path ${request.url}`);
+    }
+  }
+
+  private readBody(request: http.IncomingMessage): Promise<Body> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      request.setEncoding('utf8');
+      request.on('data', chunk => {
+        data += chunk;
+        if (data.length > MAX_BODY_BYTES) {
+          reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+          request.destroy();
+        }
+      });
+      request.on('end', () => {
+        try {
+          const body = data.trim() === '' ? {} : JSON.parse(data);
+          if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+            throw new Error('expected a JSON object');
+          }
+          resolve(body);
+        } catch (error) {
+          reject(new HttpError(400, `Invalid JSON body: ${(error as Error).message}`));
+        }
+      });
+      request.on('error', reject);
+    });
+  }
+
+  private listGrids(): unknown[] {
+    return [...this.sessions.entries()].map(([id, { simulation }]) => ({
+      id,
+      width: simulation.grid.width,
+      height: simulation.grid.height,
+      rovers: simulation.fleet.names()
+    }));
+  }
+
+  private createGrid(body: Body): unknown {
+    const id = body.id === undefined ? String(this.nextId++) : this.text(body, 'id');
+    if (this.sessions.has(id)) {
+      throw new HttpError(409, `Grid '${id}' already exists`);
+    }
+    const width = this.integer(body, 'width', 1, MAX_GRID_SIDE);
+    const height = this.integer(body, 'height', 1, MAX_GRID_SIDE);
+    const boundary = boundaryPolicyFromName(this.text(body, 'boundary', 'wall'));
+    const headings = headingSystemFromName(this.text(body, 'headings', '4'));
+    const mode = this.text(body, 'mode', 'interleaved');
+    if (!boundary) {
+      throw new HttpError(400, "'boundary' must be wrap, wall or abort");
+    }
+    if (!headings) {
+      throw new HttpError(400, "'headings' must be 4, 8 or hex");
+    }
+    if (mode !== 'sequential' && mode !== 'interleaved') {
+      throw new HttpError(400, "'mode' must be sequential or interleaved");
+    }
+
+    let grid: Grid;
+    try {
+      grid = new Grid(width, height, boundary, headings, body.elevation === undefined ? null : this.heightMap(body.elevation));
+    } catch (error) {
+      throw error instanceof HttpError ? error : new HttpError(400, (error as Error).message);
+    }
+    this.sessions.set(id, { simulation: new Simulation(grid, new Fleet(grid), mode as ExecutionMode), events: new Map() });
+    return { id, width, height, boundary: boundary.name(), headings: headings.name(), mode, ...(grid.elevation && { elevation: grid.elevation.rows() }) };
+  }
+
+  private deleteGrid(id: string): unknown {
+    this.session(id);
+    this.sessions.delete(id);
+    return { id, deleted: true };
+  }
+
+  private addObstacle(id: string, body: Body): unknown {
+    const { grid } = this.session(id).simulation;
+    const x = this.integer(body, 'x', 0);
+    const y = this.integer(body, 'y', 0);
+    if (!grid.withinBounds(x, y)) {
+      throw new HttpError(400, `(${x}, ${y}) is outside the ${grid.width}x${grid.height} grid`);
+    }
+    if (grid.isBlocked(x, y)) {
+      throw new HttpError(409, `(${x}, ${y}) is already occupied`);
+    }
+    grid.add(new Obstacle(x, y));
+    return { x, y };
+  }
+
+  private listRovers(id: string): unknown[] {
+    const { fleet } = this.session(id).simulation;
+    return fleet.names().map(name => this.roverState(id, name));
+  }
+
+  private createRover(id: string, body: Body): unknown {
+    const session = this.session(id);
+    const { grid, fleet } = session.simulation;
+    const name = this.text(body, 'name');
+    const heading = grid.headings.fromName(this.text(body, 'heading', grid.headings.headings()[0]!.name()).toUpperCase());
+    if (!heading) {
+      throw new HttpError(400, `'heading' must be one of ${grid.headings.headings().map(h => h.name()).join(', ')}`);
+    }
+    const capacity = body.battery === undefined ? undefined : this.number(body, 'battery');
+    const sensorRadius = body.sensorRadius === undefined ? undefined : this.integer(body, 'sensorRadius', 1);
+    const maxSlope = body.maxSlope === undefined ? undefined : this.slope(body);
+    const capabilities = body.capabilities === undefined ? [] : body.capabilities;
+    if (!Array.isArray(capabilities) || capabilities.some(c => typeof c !== 'string')) {
+      throw new HttpError(400, "'capabilities' must be an array of strings");
+    }
+    const x = this.integer(body, 'x', 0);
+    const y = this.integer(body, 'y', 0);
+    if (!grid.withinBounds(x, y)) {
+      throw new HttpError(400, `(${x}, ${y}) is outside the ${grid.width}x${grid.height} grid`);
+    }
+    if (fleet.names().includes(name)) {
+      throw new HttpError(409, `Rover '${name}' is already deployed`);
+    }
+    if (grid.isBlocked(x, y)) {
+      throw new HttpError(409, `(${x}, ${y}) is already occupied`);
+    }
+
+    const rover = fleet.deploy(name, x, y, heading, {
+      capabilities: capabilities.map(c => c.toLowerCase()),
+      ...(capacity !== undefined && { battery: new Battery(capacity, DEFAULT_ENERGY_COSTS, new SolarCharge(1, 24)) }),
+      ...(sensorRadius !== undefined && { sensorRadius }),
+      ...(maxSlope !== undefined && { maxSlope })
+    });
+    const events: RoverEvent[] = [];
+    session.events.set(name, events);
+    rover.subscribe(event => events.push(event));
+    return this.roverState(id, name);
+  }
+
+  private runCommands(id: string, name: string, body: Body): unknown {
+    const { simulation } = this.session(id);
+    this.rover(id, name);
+    const sequence = this.text(body, 'sequence');
+    if (body.dryRun === true || body.strict === true) {
+      const report = new SequenceValidator().validate(simulation, name, sequence);
+      if (body.dryRun === true) {
+        return report;
+      }
+      if (!report.valid) {
+        throw new HttpError(422, `Strict mode: command ${report.firstFailure} would fail, the sequence was not run`, { report });
+      }
+    }
+    simulation.submit(name, sequence);
+    simulation.run();
+    const abort = simulation.fleet.abortOf(name);
+    if (abort) {
+      throw new HttpError(422, `The sequence aborted: ${abort.message}`, { rover: this.roverState(id, name) });
+    }
+    return this.roverState(id, name);
+  }
+
+  private roverState(id: string, name: string): unknown {
+    const rover = this.rover(id, name);
+    const abort = this.session(id).simulation.fleet.abortOf(name);
+    return {
+      name,
+      x: rover.x,
+      y: rover.y,
+      heading: rover.direction.name(),
+      report: rover.report(),
+      traversalCost: rover.traversalCost,
+      ...(rover.battery && { battery: Number(rover.battery.level.toFixed(2)) }),
+      ...(rover.maxSlope !== null && { maxSlope: rover.maxSlope }),
+      ...(rover.belief && { belief: rover.belief.export() }),
+      ...(abort && { aborted: abort.message })
+    };
+  }
+
+  private history(id: string, name: string): unknown {
+    const session = this.session(id);
+    const rover = this.rover(id, name);
+    return {
+      name,
+      sequences: session.simulation.journal().filter(submission => submission.rover === name),
+      trail: rover.trail(),
+      events: session.events.get(name) ?? []
+    };
+  }
+
+  private session(id: string): Session {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new HttpError(404, `Unknown grid '${id}'`);
+    }
+    return session;
+  }
+
+  private rover(id: string, name: string): Rover {
+    const { fleet } = this.session(id).simulation;
+    if (!fleet.names().includes(name)) {
+      throw new HttpError(404, `Unknown rover '${name}' on grid '${id}'`);
+    }
+    return fleet.rover(name);
+  }
+
+  private text(body: Body, key: string, fallback?: string): string {
+    const value = body[key] ?? fallback;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new HttpError(400, `'${key}' is required`);
+    }
+    return String(value);
+  }
+
+  private number(body: Body, key: string): number {
+    const value = body[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new HttpError(400, `'${key}' must be a positive number`);
+    }
+    return value;
+  }
+
+  private slope(body: Body): number {
+    const value = body.maxSlope;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new HttpError(400, "'maxSlope' must be a number of at least 0");
+    }
+    return value;
+  }
+
+  // Rows of heights, northern row first, the same layout as a height map file.
+  private heightMap(value: unknown): HeightMap {
+    if (!Array.isArray(value) || value.some(row => !Array.isArray(row) || row.some((h: unknown) => typeof h !== 'number'))) {
+      throw new HttpError(400, "'elevation' must be an array of rows of numbers");
+    }
+    return new HeightMap(value);
+  }
+
+  private integer(body: Body, key: string, min: number, max?: number): number {
+    const value = body[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      throw new HttpError(400, `'${key}' must be an integer of at least ${min}`);
+    }
+    if (max !== undefined && value > max) {
+      throw new HttpError(400, `'${key}' must be an integer of at most ${max}`);
+    }
+    return value;
+  }
+}
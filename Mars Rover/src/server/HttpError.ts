@@ -0,0 +1,6 @@
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
@@ -0,0 +1,81 @@
+import { Grid } from '../grid/Grid';
+import { GridComponent } from '../grid/GridComponent';
+import { SeededRandom } from '../util/SeededRandom';
+
+export interface PatternStep {
+  x: number;
+  y: number;
+  active: boolean;
+}
+
+export type MovementPatternState =
+  | { pattern: 'patrol'; waypoints: [number, number][]; target: number }
+  | { pattern: 'wander'; seed: number; state: number }
+  | { pattern: 'blink'; visible: number; hidden: number; offset: number };
+
+export interface MovementPattern {
+  next(obstacle: GridComponent, grid: Grid, tick: number): PatternStep;
+  save(): MovementPatternState;
+}
+
+function canOccupy(grid: Grid, x: number, y: number): boolean {
+  return grid.withinBounds(x, y) && !grid.isBlocked(x, y);
+}
+
+// Walks one cell per tick towards each waypoint in turn, x before y, looping back to the first.
+export class PatrolPattern implements MovementPattern {
+  constructor(private readonly waypoints: [number, number][], private target: number = 0) {}
+
+  next(obstacle: GridComponent, grid: Grid): PatternStep {
+    let [tx, ty] = this.waypoints[this.target]!;
+    if (obstacle.x === tx && obstacle.y === ty) {
+      this.target = (this.target + 1) % this.waypoints.length;
+      [tx, ty] = this.waypoints[this.target]!;
+    }
+    const nx = obstacle.x + Math.sign(tx - obstacle.x);
+    const ny = nx === obstacle.x ? obstacle.y + Math.sign(ty - obstacle.y) : obstacle.y;
+    return canOccupy(grid, nx, ny) ? { x: nx, y: ny, active: true } : { x: obstacle.x, y: obstacle.y, active: true };
+  }
+
+  save(): MovementPatternState {
+    return { pattern: 'patrol', waypoints: this.waypoints.map(([x, y]) => [x, y] as [number, number]), target: this.target };
+  }
+}
+
+export class RandomWalkPattern implements MovementPattern {
+  constructor(private readonly random: SeededRandom) {}
+
+  next(obstacle: GridComponent, grid: Grid): PatternStep {
+    const options: [number, number][] = [[0, 0], [1, 0], [-1, 0], [0, 1], [0, -1]];
+    const [dx, dy] = options[this.random.int(options.length)]!;
+    const nx = obstacle.x + dx;
+    const ny = obstacle.y + dy;
+    return canOccupy(grid, nx, ny) ? { x: nx, y: ny, active: true } : { x: obstacle.x, y: obstacle.y, active: true };
+  }
+
+  save(): MovementPatternState {
+    return { pattern: 'wander', seed: this.random.seed, state: this.random.state };
+  }
+}
+
+// Present for `visible` ticks, then absent for `hidden` ticks, repeating; `offset` shifts the cycle.
+export class SchedulePattern implements MovementPattern {
+  constructor(private readonly visible: number, private readonly hidden: number, private readonly offset: number = 0) {}
+
+  next(obstacle: GridComponent, grid: Grid, tick: number): PatternStep {
+    const phase = (tick + this.offset) % (this.visible + this.hidden);
+    return { x: obstacle.x, y: obstacle.y, active: phase < this.visible };
+  }
+
+  save(): MovementPatternState {
+    return { pattern: 'blink', visible: this.visible, hidden: this.hidden, offset: this.offset };
+  }
+}
+
+export function movementPatternFromState(state: MovementPatternState): MovementPattern {
+  switch (state.pattern) {
+    case 'patrol': return new PatrolPattern(state.waypoints, state.target);
+    case 'wander': return new RandomWalkPattern(new SeededRandom(state.seed, state.state));
+    case 'blink': return new SchedulePattern(state.visible, state.hidden, state.offset);
+  }
+}
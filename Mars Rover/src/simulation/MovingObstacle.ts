@@ -0,0 +1,40 @@
+import { GridComponent } from '../grid/GridComponent';
+import { Grid } from '../grid/Grid';
+import { MovementPattern } from './MovementPattern';
+
+export class MovingObstacle extends GridComponent {
+  private position: [number, number];
+  constructor(x: number, y: number, readonly pattern: MovementPattern, private active: boolean = true) {
+    super();
+    this.position = [x, y];
+  }
+
+  get x(): number {
+    return this.position[0];
+  }
+
+  get y(): number {
+    return this.position[1];
+  }
+
+  isObstacle(): boolean {
+    return this.active;
+  }
+
+  update(grid: Grid, tick: number): void {
+    const { x, y, active } = this.pattern.next(this, grid, tick);
+    if (active && !this.active && this.occupiedByOthers(grid, x, y)) {
+      return;
+    }
+    this.active = active;
+    if (x !== this.x || y !== this.y) {
+      const [fromX, fromY] = this.position;
+      this.position = [x, y];
+      grid.relocate(this, fromX, fromY);
+    }
+  }
+
+  private occupiedByOthers(grid: Grid, x: number, y: number): boolean {
+    return grid.componentsAt(x, y).some(c => c !== this && c.isObstacle());
+  }
+}
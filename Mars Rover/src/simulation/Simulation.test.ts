@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+
+const run = (source: string) => {
+  const runner = new MissionRunner();
+  const simulation = runner.prepare(new MissionParser().parse(source));
+  return { simulation, results: runner.complete(simulation) };
+};
+
+test('interleaved rovers each make one maneuver per tick', () => {
+  const { simulation, results } = run('GRID 10 10\nMODE interleaved\nROVER a 0 0 N MMM\nROVER b 5 5 W MM');
+  assert.equal(simulation.clock.tick, 3);
+  assert.deepEqual(results.map(r => [r.x, r.y]), [[0, 3], [3, 5]]);
+});
+
+test('sequential rovers take turns', () => {
+  const { simulation } = run('GRID 10 10\nMODE sequential\nROVER a 0 0 N MMM\nROVER b 5 5 W MM');
+  assert.equal(simulation.clock.tick, 5);
+});
+
+test('moving obstacles keep moving while a compound command runs', () => {
+  const { simulation } = run('GRID 6 6\nPATROL 5 0 5 5\nROVER a 0 0 N G(0,3)');
+  const [patrol] = simulation.movingObstacles();
+  assert.equal(simulation.clock.tick, 3);
+  assert.deepEqual([patrol!.x, patrol!.y], [5, 3]);
+});
+
+test('counts every maneuver of a compound command as a tick', () => {
+  const { simulation } = run('GRID 5 5\nROVER a 0 0 N G(3,3)');
+  assert.deepEqual([simulation.clock.tick, simulation.commandsExecuted], [7, 7]);
+});
+
+test('records a runaway WHILE loop as an abort and keeps the other rovers going', () => {
+  const { results } = run('GRID 3 3\nMODE interleaved\nROVER a 1 1 N WHILE NOT EDGE R\nROVER b 0 0 E MM');
+  const [a, b] = results;
+  assert.match(a!.aborted!, /WHILE loop exceeded 10000 iterations/);
+  assert.deepEqual([a!.x, a!.y, a!.heading], [1, 1, 'N']);
+  assert.deepEqual([b!.x, b!.y], [2, 0]);
+});
+
+test('an abort under the abort boundary policy drops the rest of the sequence', () => {
+  const { results } = run('GRID 3 3\nBOUNDARY abort\nROVER a 0 0 S MRR');
+  assert.deepEqual([results[0]!.x, results[0]!.y, results[0]!.heading], [0, 0, 'S']);
+  assert.ok(results[0]!.aborted);
+});
+
+test('a sequence submitted after an abort does not pick up the rest of the aborted one', () => {
+  const { simulation, results } = run('GRID 5 5\nBOUNDARY abort\nROVER a 0 3 N MMRRR');
+  assert.ok(results[0]!.aborted);
+  simulation.submit('a', 'L');
+  assert.equal(simulation.run().a, 'Rover is at (0, 4) facing W');
+  assert.equal(simulation.fleet.abortOf('a'), undefined);
+});
+
+test('a compound command that aborts part-way stops where its last maneuver left the rover', () => {
+  const { simulation, results } = run('GRID 6 6\nMODE interleaved\nROVER a 0 0 E G(5,0)\nROVER b 0 2 S MM\nBATTERY a 2.5');
+  const [a, b] = results;
+  assert.match(a!.aborted!, /battery only holds 0.5/);
+  assert.deepEqual([a!.x, a!.y, b!.x, b!.y], [2, 0, 0, 0]);
+  assert.equal(simulation.fleet.rover('a').battery!.level, 0.5);
+});
@@ -0,0 +1,184 @@
+import { Grid } from '../grid/Grid';
+import { Fleet, ExecutionMode } from '../fleet/Fleet';
+import { Command } from '../commands/Command';
+import { MovingObstacle } from './MovingObstacle';
+import { SimulationClock } from './SimulationClock';
+import { Objective } from '../objectives/Objective';
+import { CommLink } from '../comms/CommLink';
+
+export interface Submission {
+  tick: number;
+  rover: string;
+  sequence: string;
+}
+
+export interface QueueState {
+  sequences: string[];
+  next: number;
+  // The command at next has made some of its maneuvers but not all of them.
+  inProgress?: boolean;
+}
+
+interface RoverQueue extends QueueState {
+  commands: Command[];
+  running?: Iterator<void>;
+}
+
+export class Simulation {
+  private obstacles: MovingObstacle[] = [];
+  private queues = new Map<string, RoverQueue>();
+  private submissions: Submission[] = [];
+  private executed = 0;
+  objectives: Objective[] = [];
+  link: CommLink | null = null;
+
+  constructor(
+    readonly grid: Grid,
+    readonly fleet: Fleet,
+    readonly mode: ExecutionMode = 'interleaved',
+    readonly clock: SimulationClock = new SimulationClock()
+  ) {}
+
+  addObstacle(obstacle: MovingObstacle): void {
+    this.grid.add(obstacle);
+    this.obstacles.push(obstacle);
+  }
+
+  movingObstacles(): MovingObstacle[] {
+    return [...this.obstacles];
+  }
+
+  // Queues a sequence behind whatever the rover still has to run. After an abort the rest of the
+  // aborted queue is dropped, so the new sequence starts from a fresh queue.
+  submit(name: string, sequence: string): void {
+    const pending = this.hasPending(name);
+    const commands = this.fleet.compile(name, sequence);
+    this.submissions.push({ tick: this.clock.tick, rover: name, sequence });
+    const queue = this.queues.get(name);
+    if (queue && pending) {
+      queue.sequences.push(sequence);
+      queue.commands.push(...commands);
+      return;
+    }
+    this.queues.set(name, { sequences: [sequence], commands, next: 0 });
+    if (commands.length === 0) {
+      this.fleet.rover(name).completeSequence();
+    }
+  }
+
+  // Maneuvers made so far by the whole fleet, one per rover per tick: a G(x,y) or a loop counts every
+  // move and turn it makes.
+  get commandsExecuted(): number {
+    return this.executed;
+  }
+
+  journal(): Submission[] {
+    return this.submissions.map(submission => ({ ...submission }));
+  }
+
+  queueOf(name: string): QueueState | undefined {
+    const queue = this.queues.get(name);
+    return queue && { sequences: [...queue.sequences], next: queue.next, ...(queue.running && { inProgress: true }) };
+  }
+
+  // Rebuilds a saved run: recompiles each rover's queued sequences and skips what had already executed.
+  // A compound command that was part-way through cannot pick up where it stopped and starts over, so
+  // such runs are only rebuilt to be looked at.
+  resume(journal: Submission[], queues: Record<string, QueueState>, executed = 0): void {
+    this.submissions = journal.map(submission => ({ ...submission }));
+    this.executed = executed;
+    Object.entries(queues).forEach(([name, { sequences, next }]) => {
+      const commands = sequences.flatMap(sequence => this.fleet.compile(name, sequence));
+      this.queues.set(name, { sequences: [...sequences], commands, next });
+    });
+  }
+
+  // With a rover name, whether that rover has nothing left to run; without one, whether the whole
+  // run is over, which also waits for anything still travelling over the comms link.
+  isIdle(name?: string): boolean {
+    if (name !== undefined) {
+      return !this.hasPending(name);
+    }
+    return [...this.queues.keys()].every(rover => !this.hasPending(rover)) && !this.link?.isBusy();
+  }
+
+  step(): void {
+    const active = new Set<string>();
+    for (const name of this.queues.keys()) {
+      if (!this.hasPending(name)) {
+        continue;
+      }
+      if (this.proceed(name)) {
+        active.add(name);
+        if (this.mode === 'sequential') {
+          break;
+        }
+      }
+    }
+    this.advance(active);
+  }
+
+  // Makes the rover's next maneuver, starting its next command when needed; commands that finish
+  // without a maneuver, such as a WHILE whose condition is already false, take no time.
+  private proceed(name: string): boolean {
+    const queue = this.queues.get(name)!;
+    while (!queue.running) {
+      if (!this.hasPending(name)) {
+        return false;
+      }
+      queue.running = this.fleet.start(name, queue.commands[queue.next]!, queue.next) ?? undefined;
+      if (!queue.running) {
+        this.finishCommand(name, queue);
+      }
+    }
+    if (this.fleet.proceed(name, queue.running, queue.next)) {
+      delete queue.running;
+      this.finishCommand(name, queue);
+    }
+    return true;
+  }
+
+  private finishCommand(name: string, queue: RoverQueue): void {
+    queue.next++;
+    if (!this.hasPending(name)) {
+      this.fleet.rover(name).completeSequence();
+    }
+  }
+
+  // Ends the current tick: the active rovers have run one command each, rovers that did not act
+  // recharge, moving obstacles move and the clock advances.
+  advance(active: ReadonlySet<string> = new Set()): void {
+    this.executed += active.size;
+    this.fleet.names().filter(name => !active.has(name)).forEach(name => this.fleet.rover(name).tick());
+    this.obstacles.forEach(obstacle => obstacle.update(this.grid, this.clock.tick));
+    this.clock.advance();
+  }
+
+  // Runs a started command for one rover straight away rather than through its queue, spending a tick on
+  // each maneuver, as the REPL and dry runs do.
+  drive(name: string, run: Iterator<void>): void {
+    if (run.next().done) {
+      return;
+    }
+    for (let done = false; !done;) {
+      try {
+        done = !!run.next().done;
+      } finally {
+        this.fleet.rover(name).tick();
+        this.advance(new Set([name]));
+      }
+    }
+  }
+
+  run(maxTicks: number = 100000): Record<string, string> {
+    for (let tick = 0; tick < maxTicks && !this.isIdle(); tick++) {
+      this.step();
+    }
+    return this.fleet.reports();
+  }
+
+  private hasPending(name: string): boolean {
+    const queue = this.queues.get(name);
+    return !!queue && queue.next < queue.commands.length && !this.fleet.abortOf(name);
+  }
+}
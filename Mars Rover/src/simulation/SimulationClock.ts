@@ -0,0 +1,26 @@
+export type TickListener = (tick: number) => void;
+
+export class SimulationClock {
+  private listeners: TickListener[] = [];
+
+  constructor(private current: number = 0) {}
+
+  get tick(): number {
+    return this.current;
+  }
+
+  subscribe(listener: TickListener): void {
+    if (!this.listeners.includes(listener)) {
+      this.listeners.push(listener);
+    }
+  }
+
+  unsubscribe(listener: TickListener): void {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  advance(): void {
+    this.current++;
+    this.listeners.forEach(listener => listener(this.current));
+  }
+}
@@ -0,0 +1,24 @@
+// Mulberry32: small, fast and fully determined by its seed, so runs can be replayed.
+export class SeededRandom {
+  private current: number;
+
+  constructor(readonly seed: number, state: number = seed) {
+    this.current = state >>> 0;
+  }
+
+  get state(): number {
+    return this.current;
+  }
+
+  next(): number {
+    this.current = (this.current + 0x6d2b79f5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MissionParser } from '../mission/MissionParser';
+import { MissionRunner } from '../mission/MissionRunner';
+import { CommandParser } from '../language/CommandParser';
+import { SequenceValidator } from './SequenceValidator';
+
+const prepare = (source: string) => new MissionRunner().prepare(new MissionParser().parse(source));
+const outcomes = (report: ReturnType<SequenceValidator['validate']>) => report.steps.map(step => [step.command, step.outcome]);
+
+test('predicts each command without touching the real simulation', () => {
+  const simulation = prepare('GRID 5 5\nOBSTACLE 0 2\nROVER a 0 0 N');
+  const report = new SequenceValidator().validate(simulation, 'a', 'MMRM');
+  assert.deepEqual(outcomes(report), [['M', 'ok'], ['M', 'blocked'], ['R', 'ok'], ['M', 'ok']]);
+  assert.equal(report.steps[1]!.reason, 'an obstacle is in the way');
+  assert.deepEqual([report.valid, report.firstFailure, report.final], [false, 1, { x: 1, y: 1, heading: 'E' }]);
+  assert.equal(simulation.fleet.rover('a').report(), 'Rover is at (0, 0) facing N');
+  assert.equal(simulation.clock.tick, 0);
+});
+
+test('stops at unreachable targets and runaway loops as at any other abort', () => {
+  const simulation = prepare('GRID 5 5\nOBSTACLE 3 4\nOBSTACLE 4 3\nROVER a 0 0 N');
+  const unreachable = new SequenceValidator().validate(simulation, 'a', 'G(4,4) M');
+  assert.deepEqual(outcomes(unreachable), [['G(4,4)', 'blocked']]);
+  assert.match(unreachable.steps[0]!.reason!, /Target \(4, 4\) is unreachable/);
+  const loop = new SequenceValidator().validate(prepare('GRID 3 3\nROVER a 1 1 N'), 'a', 'R WHILE NOT EDGE R M');
+  assert.deepEqual(outcomes(loop), [['R', 'ok'], ['WHILE NOT EDGE', 'blocked']]);
+  assert.equal(loop.firstFailure, 1);
+});
+
+test('reports syntax errors as invalid', () => {
+  const simulation = prepare('GRID 5 5\nROVER a 0 0 N');
+  const syntax = new SequenceValidator().validate(simulation, 'a', 'MQ');
+  assert.deepEqual([syntax.valid, syntax.steps[0]!.outcome], [false, 'invalid']);
+});
+
+test('stops at the first abort', () => {
+  const simulation = prepare('GRID 3 3\nBOUNDARY abort\nROVER a 0 0 S');
+  const report = new SequenceValidator().validate(simulation, 'a', 'RMM');
+  assert.deepEqual(outcomes(report), [['R', 'ok'], ['M', 'blocked']]);
+});
+
+test('undoes and redoes what the sequence itself did', () => {
+  const simulation = prepare('GRID 5 5\nROVER a 0 0 N');
+  const report = new SequenceValidator().validate(simulation, 'a', 'MUY', new CommandParser());
+  assert.equal(report.valid, true);
+  assert.deepEqual(report.final, { x: 0, y: 1, heading: 'N' });
+  assert.deepEqual(outcomes(new SequenceValidator().validate(simulation, 'a', 'U', new CommandParser())), [['U', 'invalid']]);
+});
+
+test('explains undo and redo that reach back before the sequence', () => {
+  const simulation = prepare('GRID 5 5\nROVER a 0 0 N M');
+  simulation.run();
+  const undo = new SequenceValidator().validate(simulation, 'a', 'U M', new CommandParser());
+  assert.deepEqual(outcomes(undo), [['U', 'invalid']]);
+  assert.equal(undo.steps[0]!.reason, 'a dry run cannot undo commands from before this sequence');
+
+  const redo = new SequenceValidator().validate(simulation, 'a', 'MY', new CommandParser());
+  assert.equal(redo.steps[1]!.reason, 'nothing to undo or redo');
+});
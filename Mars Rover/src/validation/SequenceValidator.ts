@@ -0,0 +1,115 @@
+import { Simulation } from '../simulation/Simulation';
+import { SnapshotSerializer } from '../persistence/SnapshotSerializer';
+import { COLLECT_FAILURES, RoverEvent } from '../rover/RoverEvents';
+import { HistoryCommand, UndoCommand } from '../commands/HistoryCommand';
+import { runStepwise } from '../commands/Command';
+import { SequenceAbortedError } from '../commands/SequenceAbortedError';
+import { CommandNode, describeNode, expandRepeats } from '../language/CommandNode';
+import { CommandParser } from '../language/CommandParser';
+import { CommandCompiler } from '../language/CommandCompiler';
+import { CommandSyntaxError } from '../language/CommandSyntaxError';
+
+export type StepOutcome = 'ok' | 'blocked' | 'invalid';
+
+export interface StepReport {
+  index: number;
+  command: string;
+  outcome: StepOutcome;
+  reason?: string;
+  x: number;
+  y: number;
+  heading: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  firstFailure: number | null;
+  steps: StepReport[];
+  final: { x: number; y: number; heading: string };
+}
+
+const BLOCK_REASONS: Partial<Record<RoverEvent['type'], string>> = {
+  'blocked-by-obstacle': 'an obstacle is in the way',
+  'blocked-by-boundary': 'the edge of the grid is in the way',
+  'blocked-by-terrain': 'the terrain is impassable',
+  'too-steep': 'the slope is too steep'
+};
+
+// Predicts how a sequence would play out by running it on a copy of the simulation, so the real
+// rovers, batteries, belief maps and moving obstacles are left untouched.
+export class SequenceValidator {
+  constructor(private readonly serializer = new SnapshotSerializer()) {}
+
+  validate(simulation: Simulation, name: string, source: string, parser = new CommandParser({ allowHistory: false })): ValidationReport {
+    // Only the new sequence is driven on the copy, so a queued command caught part-way does not matter.
+    const sandbox = this.serializer.restore(this.serializer.capture(simulation), { partial: true });
+    const rover = sandbox.fleet.rover(name);
+    const history = sandbox.fleet.history(name);
+    const steps: StepReport[] = [];
+    const position = () => ({ x: rover.x, y: rover.y, heading: rover.direction.name() });
+
+    let nodes: CommandNode[];
+    try {
+      nodes = parser.clone().parse(source);
+    } catch (error) {
+      if (!(error instanceof CommandSyntaxError)) {
+        throw error;
+      }
+      const command = source.split('\n')[error.line - 1]?.slice(error.column - 1).split(/\s/)[0] ?? '';
+      steps.push({ index: 0, command, outcome: 'invalid', reason: error.message, ...position() });
+      return this.report(steps, position());
+    }
+
+    let blocked: string | undefined;
+    rover.subscribe(event => {
+      blocked = blocked ?? (event.type === 'collect-failed' ? COLLECT_FAILURES[event.reason] : BLOCK_REASONS[event.type]);
+    });
+    const labels = expandRepeats(nodes).map(describeNode);
+    const commands = new CommandCompiler(rover, history).compile(nodes);
+    // The sandbox history starts empty, so it can only undo what this sequence did. Reaching back into
+    // the rover's real history cannot be replayed on the copy; the rest of the sequence is unpredictable.
+    const earlier = simulation.fleet.history(name);
+    let redoable = earlier.canRedo();
+
+    for (const [index, command] of commands.entries()) {
+      let outcome: StepOutcome = 'ok';
+      let reason: string | undefined;
+      let aborted = false;
+      blocked = undefined;
+      rover.beginCommand(index);
+      try {
+        if (command instanceof HistoryCommand) {
+          sandbox.drive(name, runStepwise(command));
+          const undo = command instanceof UndoCommand;
+          if (!command.succeeded() && (undo ? earlier.canUndo() : redoable)) {
+            [outcome, reason, aborted] = ['invalid', `a dry run cannot ${undo ? 'undo' : 'redo'} commands from before this sequence`, true];
+          } else if (!command.succeeded()) {
+            [outcome, reason] = ['invalid', 'nothing to undo or redo'];
+          }
+        } else {
+          sandbox.drive(name, history.run(command));
+          redoable = false;
+        }
+      } catch (error) {
+        if (error instanceof SequenceAbortedError) {
+          [outcome, reason, aborted] = ['blocked', error.message, true];
+        } else {
+          throw error;
+        }
+      }
+      if (outcome === 'ok' && blocked) {
+        [outcome, reason] = ['blocked', blocked];
+      }
+      steps.push({ index, command: labels[index] ?? '?', outcome, ...(reason && { reason }), ...position() });
+      if (aborted) {
+        break;
+      }
+    }
+    return this.report(steps, position());
+  }
+
+  private report(steps: StepReport[], final: ValidationReport['final']): ValidationReport {
+    const failure = steps.find(step => step.outcome !== 'ok');
+    return { valid: !failure, firstFailure: failure ? failure.index : null, steps, final };
+  }
+}